@@ -147,7 +147,15 @@ import express, {
 // Use the official Standard Schema types and utils so consumers can pass
 // zod/joi/valibot schemas directly (they already implement the spec).
 import type { StandardSchemaV1 } from "@standard-schema/spec";
-import { SchemaError } from "@standard-schema/utils";
+import { SchemaError, getDotPath } from "@standard-schema/utils";
+import busboy from "busboy";
+import { randomUUID } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Transform, type Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
 
 // Any schema compatible with the Standard Schema v1 spec
 export type AnyStandardSchema = StandardSchemaV1<any, any>;
@@ -289,6 +297,185 @@ export function isSchemaError(error: unknown): error is { issues: any[] } {
   );
 }
 
+/**
+ * Passed to `next()` when a route forwards validation failures instead of
+ * responding to them (see the `forwardValidationErrors` option).
+ *
+ * @property source - The part of the request that failed validation.
+ * @property input - The value that was validated.
+ * @property issues - The Standard Schema issues reported by the schema.
+ */
+export class RequestValidationError extends Error {
+  readonly status = 400;
+  readonly source: ValidationSource;
+  readonly input: unknown;
+  readonly issues: ReadonlyArray<StandardSchemaV1.Issue>;
+
+  constructor(
+    source: ValidationSource,
+    input: unknown,
+    issues: ReadonlyArray<StandardSchemaV1.Issue>
+  ) {
+    super(`Request ${source} failed validation`);
+    this.name = "RequestValidationError";
+    this.source = source;
+    this.input = input;
+    this.issues = issues;
+  }
+}
+
+// Validation error detection helper
+export function isRequestValidationError(
+  error: unknown
+): error is RequestValidationError {
+  return error instanceof RequestValidationError;
+}
+
+// Express 4 ignores the promise returned by a handler, so a rejection never
+// reaches the error handler. Forward it to next() ourselves; the wrapper
+// returns nothing so Express 5 does not forward the same rejection again.
+function forwardRejections(
+  handler: (req: Request, res: Response, next: NextFunction) => unknown
+) {
+  return function (
+    this: unknown,
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void {
+    const result = handler.call(this, req, res, next) as any;
+    if (result && typeof result.then === "function") {
+      result.then(undefined, (error: unknown) =>
+        next(error ?? new Error("Rejected promise"))
+      );
+    }
+  };
+}
+
+// A content-type map rather than a single schema
+function isBodySchemaMap(schema: unknown): schema is BodySchemaMap {
+  return (
+    typeof schema === "object" &&
+    schema !== null &&
+    !("~standard" in schema) &&
+    typeof (schema as any).safeParse !== "function" &&
+    typeof (schema as any).parse !== "function" &&
+    typeof (schema as any).validate !== "function"
+  );
+}
+
+// Express' own parser for a content type: JSON, urlencoded forms, text, or
+// a raw Buffer for anything else. The route already matched the type.
+function createBodyParser(contentType: string) {
+  const type = () => true;
+  if (/^application\/([\w.-]+\+)?json$/.test(contentType)) {
+    return express.json({ type });
+  }
+  if (contentType === "application/x-www-form-urlencoded") {
+    return express.urlencoded({ type, extended: false });
+  }
+  if (contentType.startsWith("text/")) {
+    return express.text({ type });
+  }
+  return express.raw({ type });
+}
+
+// Keys that would modify Object.prototype when used as nested query keys
+const UNSAFE_QUERY_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+// Convert the strings of a parsed query into the values they spell so that
+// schemas without coercion support can validate them.
+function coerceQuery(
+  query: Record<string, unknown>,
+  options: Required<QueryCoercionOptions>
+): Record<string, unknown> {
+  const coerceScalar = (value: string): unknown => {
+    if (options.booleans && (value === "true" || value === "false")) {
+      return value === "true";
+    }
+    if (options.numbers && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) {
+      const number = Number(value);
+      // Keep ids too large to round-trip as strings
+      if (Number.isSafeInteger(number) || value.includes(".")) return number;
+    }
+    return value;
+  };
+  const coerceString = (value: string): unknown =>
+    options.commaSeparated && value.includes(",")
+      ? value.split(",").map(coerceScalar)
+      : coerceScalar(value);
+  const coerceValue = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.flatMap((item) => {
+        const coerced = coerceValue(item);
+        return typeof item === "string" && Array.isArray(coerced)
+          ? coerced
+          : [coerced];
+      });
+    }
+    if (typeof value === "string") return coerceString(value);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([key]) => !UNSAFE_QUERY_KEYS.has(key))
+          .map(([key, item]) => [key, coerceValue(item)])
+      );
+    }
+    return value;
+  };
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(query)) {
+    const match = options.nested
+      ? /^([^[\]]+)((?:\[[^[\]]*\])+)$/.exec(key)
+      : null;
+    const path = match
+      ? [match[1], ...[...match[2].matchAll(/\[([^[\]]*)\]/g)].map((m) => m[1])]
+      : [key];
+    if (path.some((segment) => UNSAFE_QUERY_KEYS.has(segment))) continue;
+
+    const coerced = coerceValue(value);
+    const append = path[path.length - 1] === "";
+    const keys = append ? path.slice(0, -1) : path;
+    let target = result;
+    for (const segment of keys.slice(0, -1)) {
+      if (!target[segment] || typeof target[segment] !== "object") {
+        target[segment] = {};
+      }
+      target = target[segment];
+    }
+    const last = keys[keys.length - 1];
+    target[last] = append
+      ? // `a[]=1&a[]=2` collects the values into an array
+        [
+          ...(Array.isArray(target[last]) ? target[last] : []),
+          ...(Array.isArray(coerced) ? coerced : [coerced]),
+        ]
+      : coerced;
+  }
+  return result;
+}
+
+// Node lowercases incoming header names, but schemas are often written with
+// the canonical casing (`X-Tenant-Id`). Expose a read-only view of the headers
+// that resolves property lookups case-insensitively so both styles validate.
+function createCaseInsensitiveHeaders(
+  headers: Request["headers"]
+): Record<string, unknown> {
+  return new Proxy(headers, {
+    get(target, key) {
+      return typeof key === "string"
+        ? (target as any)[key.toLowerCase()]
+        : (target as any)[key];
+    },
+    has(target, key) {
+      return typeof key === "string"
+        ? key.toLowerCase() in target
+        : key in target;
+    },
+  });
+}
+
 /**
  * Extract route parameters from Express.js route patterns.
  *
@@ -309,55 +496,55 @@ export type ExtractRouteParams<Path extends string> = string extends Path
 /**
  * Main parameter extraction logic - enhanced for Express 5 support with recursion depth limit
  */
-type ExtractParams<Path extends string> =
+type ExtractParams<Path extends string, Count extends string = "0"> =
   // Handle Express 5 braces for optional segments: {/:param} or {/path/:param}
   Path extends `${infer Before}{${infer OptionalContent}}${infer After}`
     ? ExtractOptionalSegment<OptionalContent> &
-        ExtractParams<`${Before}${After}`>
+        ExtractParams<`${Before}${After}`, Count>
     : // Handle named parameters :paramName
     Path extends `${infer _Before}:${infer Rest}`
-    ? ExtractSingleParam<Rest> & ExtractParams<RemoveFirstParam<Path>>
+    ? ExtractSingleParam<Rest> & ExtractParams<RemoveFirstParam<Path>, Count>
     : // Handle wildcards *
     // Named wildcard like *splat (path-to-regexp v8) - capture name up to common delimiters
     Path extends `${infer _Before}*${infer Name}/${infer After}`
     ? Name extends ""
       ? {
-          [K in CountWildcards<_Before, "0">]: string;
-        } & ExtractParams<`/${After}`>
-      : { [K in Name]: string[] } & ExtractParams<`/${After}`>
+          [K in Count]: string;
+        } & ExtractParams<`/${After}`, IncrementWildcard<Count>>
+      : { [K in Name]: string[] } & ExtractParams<`/${After}`, Count>
     : Path extends `${infer _Before}*${infer Name}-${infer After}`
     ? Name extends ""
       ? {
-          [K in CountWildcards<_Before, "0">]: string;
-        } & ExtractParams<`-${After}`>
-      : { [K in Name]: string[] } & ExtractParams<`-${After}`>
+          [K in Count]: string;
+        } & ExtractParams<`-${After}`, IncrementWildcard<Count>>
+      : { [K in Name]: string[] } & ExtractParams<`-${After}`, Count>
     : Path extends `${infer _Before}*${infer Name}.${infer After}`
     ? Name extends ""
       ? {
-          [K in CountWildcards<_Before, "0">]: string;
-        } & ExtractParams<`.${After}`>
-      : { [K in Name]: string[] } & ExtractParams<`.${After}`>
+          [K in Count]: string;
+        } & ExtractParams<`.${After}`, IncrementWildcard<Count>>
+      : { [K in Name]: string[] } & ExtractParams<`.${After}`, Count>
     : Path extends `${infer _Before}*${infer Name}#${infer After}`
     ? Name extends ""
       ? {
-          [K in CountWildcards<_Before, "0">]: string;
-        } & ExtractParams<`#${After}`>
-      : { [K in Name]: string[] } & ExtractParams<`#${After}`>
+          [K in Count]: string;
+        } & ExtractParams<`#${After}`, IncrementWildcard<Count>>
+      : { [K in Name]: string[] } & ExtractParams<`#${After}`, Count>
     : Path extends `${infer _Before}*${infer Name}:${infer After}`
     ? Name extends ""
       ? {
-          [K in CountWildcards<_Before, "0">]: string;
-        } & ExtractParams<`:${After}`>
-      : { [K in Name]: string[] } & ExtractParams<`:${After}`>
+          [K in Count]: string;
+        } & ExtractParams<`:${After}`, IncrementWildcard<Count>>
+      : { [K in Name]: string[] } & ExtractParams<`:${After}`, Count>
     : Path extends `${infer _Before}*${infer Name}`
     ? Name extends ""
-      ? { [K in CountWildcards<_Before, "0">]: string } & ExtractParams<``>
-      : { [K in Name]: string[] } & ExtractParams<``>
+      ? { [K in Count]: string } & ExtractParams<``, IncrementWildcard<Count>>
+      : { [K in Name]: string[] } & ExtractParams<``, Count>
     : // Fallback anonymous wildcard (legacy Express 4 style) - numeric index
     Path extends `${infer _Before}*${infer After}`
     ? {
-        [K in CountWildcards<_Before, "0">]: string;
-      } & ExtractParams<After>
+        [K in Count]: string;
+      } & ExtractParams<After, IncrementWildcard<Count>>
     : // No more parameters
       {};
 
@@ -411,8 +598,21 @@ type ExtractOptionalParam<Rest extends string> =
 type ExtractSingleParam<Rest extends string> =
   // Handle regex constraints FIRST (before +, *, ?) to avoid conflicts
   Rest extends `${infer ParamName}(${infer _Constraint})${infer _After}`
-    ? { [K in ParamName]: string } // Handle consecutive parameters with separators first: param-:nextParam
-    : Rest extends `${infer ParamName}-:${infer _NextParam}`
+    ? IsBareParamName<ParamName> extends true
+      ? { [K in ParamName]: string }
+      : ExtractUnconstrainedParam<Rest>
+    : ExtractUnconstrainedParam<Rest>;
+
+// A `(` only starts the param's constraint when nothing separates the two;
+// otherwise it belongs to a later param (e.g. `:from-:to/:date(\d+)`)
+type IsBareParamName<Name extends string> =
+  Name extends `${string}${ParamDelimiter}${string}` ? false : true;
+
+type ParamDelimiter = "/" | "-" | "." | ":" | "#" | "?" | "+" | "*";
+
+type ExtractUnconstrainedParam<Rest extends string> =
+  // Handle consecutive parameters with separators first: param-:nextParam
+  Rest extends `${infer ParamName}-:${infer _NextParam}`
     ? { [K in ParamName]: string }
     : Rest extends `${infer ParamName}.:${infer _NextParam}`
     ? { [K in ParamName]: string }
@@ -467,54 +667,52 @@ type ExtractSingleParam<Rest extends string> =
 type RemoveFirstParam<Path extends string> =
   Path extends `${infer Before}:${infer Rest}`
     ? // Handle regex constraints FIRST (before +, *, ?) to avoid conflicts
-      Rest extends `${infer _ParamName}(${infer _Constraint})${infer After}`
-      ? `${Before}${After}` // Handle consecutive parameters: :param-:nextParam -> -:nextParam
-      : Rest extends `${infer _ParamName}-:${infer After}`
-      ? `${Before}-:${After}`
-      : Rest extends `${infer _ParamName}.:${infer After}`
-      ? `${Before}.:${After}`
-      : // Handle optional parameters followed by delimiters (before regular delimiters)
-      Rest extends `${infer _ParamName}?/${infer After}`
-      ? `${Before}/${After}`
-      : Rest extends `${infer _ParamName}?-${infer After}`
-      ? `${Before}${After}`
-      : Rest extends `${infer _ParamName}?.${infer After}`
-      ? `${Before}${After}`
-      : Rest extends `${infer _ParamName}?#${infer After}`
-      ? `${Before}${After}`
-      : Rest extends `${infer _ParamName}?:${infer After}`
-      ? `${Before}:${After}`
-      : // Handle regular separators (after optional parameter patterns)
-      Rest extends `${infer _ParamName}/${infer After}`
-      ? `${Before}/${After}`
-      : Rest extends `${infer _ParamName}-${infer After}`
-      ? `${Before}${After}`
-      : Rest extends `${infer _ParamName}.${infer After}`
-      ? `${Before}${After}`
-      : Rest extends `${infer _ParamName}#${infer After}`
-      ? `${Before}${After}`
-      : Rest extends `${infer _ParamName}:${infer After}`
-      ? `${Before}:${After}`
-      : // Handle Express 5 repeating parameters (after regular separators)
-      Rest extends `${infer _ParamName}+${infer After}`
-      ? `${Before}${After}`
-      : Rest extends `${infer _ParamName}*${infer After}`
-      ? `${Before}${After}`
-      : // Handle optional parameters with ?
-      Rest extends `${infer _ParamName}?${infer After}`
-      ? `${Before}${After}`
-      : Before
+      Rest extends `${infer ParamName}(${infer _Constraint})${infer After}`
+      ? IsBareParamName<ParamName> extends true
+        ? `${Before}${After}`
+        : RemoveUnconstrainedParam<Before, Rest>
+      : RemoveUnconstrainedParam<Before, Rest>
     : Path;
 
-/**
- * Count wildcards to assign proper numeric indices with recursion depth limit
- */
-type CountWildcards<
-  Path extends string,
-  Count extends string = "0"
-> = Path extends `${infer _Before}*${infer Rest}`
-  ? CountWildcards<Rest, IncrementWildcard<Count>>
-  : Count;
+// Handles consecutive parameters first: :param-:nextParam -> -:nextParam
+type RemoveUnconstrainedParam<
+  Before extends string,
+  Rest extends string
+> = Rest extends `${infer _ParamName}-:${infer After}`
+  ? `${Before}-:${After}`
+  : Rest extends `${infer _ParamName}.:${infer After}`
+  ? `${Before}.:${After}`
+  : // Handle optional parameters followed by delimiters (before regular delimiters)
+  Rest extends `${infer _ParamName}?/${infer After}`
+  ? `${Before}/${After}`
+  : Rest extends `${infer _ParamName}?-${infer After}`
+  ? `${Before}${After}`
+  : Rest extends `${infer _ParamName}?.${infer After}`
+  ? `${Before}${After}`
+  : Rest extends `${infer _ParamName}?#${infer After}`
+  ? `${Before}${After}`
+  : Rest extends `${infer _ParamName}?:${infer After}`
+  ? `${Before}:${After}`
+  : // Handle regular separators (after optional parameter patterns)
+  Rest extends `${infer _ParamName}/${infer After}`
+  ? `${Before}/${After}`
+  : Rest extends `${infer _ParamName}-${infer After}`
+  ? `${Before}${After}`
+  : Rest extends `${infer _ParamName}.${infer After}`
+  ? `${Before}${After}`
+  : Rest extends `${infer _ParamName}#${infer After}`
+  ? `${Before}${After}`
+  : Rest extends `${infer _ParamName}:${infer After}`
+  ? `${Before}:${After}`
+  : // Handle Express 5 repeating parameters (after regular separators)
+  Rest extends `${infer _ParamName}+${infer After}`
+  ? `${Before}${After}`
+  : Rest extends `${infer _ParamName}*${infer After}`
+  ? `${Before}${After}`
+  : // Handle optional parameters with ?
+  Rest extends `${infer _ParamName}?${infer After}`
+  ? `${Before}${After}`
+  : Before;
 
 /**
  * Helper type to increment wildcard count as string
@@ -539,6 +737,154 @@ type IncrementWildcard<T extends string> = T extends "0"
   ? "9"
   : "10"; // Reasonable limit for wildcards
 
+/**
+ * A piece of an Express path, as returned by parsePath(). `Name` is the
+ * union of param names, which parsePath() takes from ExtractRouteParams.
+ *
+ * - `literal` - Text matched as is.
+ * - `param` - A `:name` param matching one segment.
+ * - `constraint` - A `:name(regex)` param restricted by a regular expression.
+ * - `repeating` - A `:name+` param (`:name*` when optional) spanning segments.
+ * - `wildcard` - A `*name` wildcard, or an anonymous `*` named by its index.
+ * - `optional` - A `{...}` group (or Express 4 `:name?`) that may be left out.
+ */
+export type PathToken<Name extends string = string> =
+  | { type: "literal"; value: string }
+  | { type: "param"; name: Name }
+  | { type: "constraint"; name: Name; pattern: string }
+  | { type: "repeating"; name: Name; optional: boolean }
+  | { type: "wildcard"; name: Name }
+  | { type: "optional"; tokens: PathToken<Name>[] };
+
+const PARAM_NAME_CHAR = /[\p{ID_Continue}$]/u;
+
+/**
+ * Split an Express 4/5 path into tokens, following the same rules as
+ * ExtractRouteParams: `:name`, `:name(regex)`, `:name?`, `:name+`, `:name*`,
+ * `{optional}` segments, `*name` and anonymous `*` wildcards. The names of
+ * the returned tokens are typed as the keys of `ExtractRouteParams<Path>`.
+ *
+ * @param path - An Express route path
+ * @returns The tokens of the path, in order
+ *
+ * @example
+ * parsePath('/flights/:from-:to{/:airline}');
+ * // [
+ * //   { type: 'literal', value: '/flights/' },
+ * //   { type: 'param', name: 'from' },
+ * //   { type: 'literal', value: '-' },
+ * //   { type: 'param', name: 'to' },
+ * //   { type: 'optional', tokens: [
+ * //     { type: 'literal', value: '/' },
+ * //     { type: 'param', name: 'airline' },
+ * //   ] },
+ * // ]
+ *
+ * @example
+ * // Express 4 regex constraints
+ * parsePath('/users/:id(\\d+)');
+ * // [{ type: 'literal', value: '/users/' }, { type: 'constraint', name: 'id', pattern: '\\d+' }]
+ */
+export function parsePath<Path extends string>(
+  path: Path
+): PathToken<keyof ExtractRouteParams<Path> & string>[];
+export function parsePath(path: string): PathToken[] {
+  let wildcardIndex = 0;
+
+  const parse = (input: string): PathToken[] => {
+    const tokens: PathToken[] = [];
+    let literal = "";
+    const flush = () => {
+      if (literal) tokens.push({ type: "literal", value: literal });
+      literal = "";
+    };
+    const readName = (start: number) => {
+      let end = start;
+      while (end < input.length && PARAM_NAME_CHAR.test(input[end])) end++;
+      return input.slice(start, end);
+    };
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (char === "\\" && i + 1 < input.length) {
+        literal += input[++i];
+      } else if (char === "{") {
+        // Braces may nest, so find the matching closing brace
+        let depth = 1;
+        let end = i + 1;
+        for (; end < input.length && depth > 0; end++) {
+          if (input[end] === "\\") end++;
+          else if (input[end] === "{") depth++;
+          else if (input[end] === "}") depth--;
+        }
+        flush();
+        tokens.push({
+          type: "optional",
+          tokens: parse(input.slice(i + 1, end - 1)),
+        });
+        i = end - 1;
+      } else if (char === ":" && PARAM_NAME_CHAR.test(input[i + 1] ?? "")) {
+        const name = readName(i + 1);
+        i += name.length;
+        let pattern: string | undefined;
+        if (input[i + 1] === "(") {
+          let depth = 1;
+          let end = i + 2;
+          for (; end < input.length && depth > 0; end++) {
+            if (input[end] === "\\") end++;
+            else if (input[end] === "(") depth++;
+            else if (input[end] === ")") depth--;
+          }
+          pattern = input.slice(i + 2, end - 1);
+          i = end - 1;
+        }
+        const modifier = input[i + 1];
+        if (modifier === "+" || modifier === "*") {
+          i++;
+          flush();
+          tokens.push({ type: "repeating", name, optional: modifier === "*" });
+        } else if (modifier === "?") {
+          // Express 4 optional params also make the preceding "/" or "." optional
+          i++;
+          const prefix = /[/.]$/.test(literal) ? literal.slice(-1) : "";
+          literal = literal.slice(0, literal.length - prefix.length);
+          flush();
+          const param: PathToken = pattern
+            ? { type: "constraint", name, pattern }
+            : { type: "param", name };
+          tokens.push({
+            type: "optional",
+            tokens: prefix
+              ? [{ type: "literal", value: prefix }, param]
+              : [param],
+          });
+        } else {
+          flush();
+          tokens.push(
+            pattern
+              ? { type: "constraint", name, pattern }
+              : { type: "param", name }
+          );
+        }
+      } else if (char === "*") {
+        const name = readName(i + 1);
+        i += name.length;
+        flush();
+        tokens.push({
+          type: "wildcard",
+          name: name || String(wildcardIndex++),
+        });
+      } else {
+        literal += char;
+      }
+    }
+    flush();
+    return tokens;
+  };
+
+  return parse(path);
+}
+
 /**
  * Express middleware that adds custom properties to the request object and/or response locals.
  *
@@ -557,6 +903,146 @@ export type TypedMiddleware<
   next: NextFunction
 ) => void | Promise<void>;
 
+/**
+ * Middleware that runs after request validation (see the `validate` route
+ * option) and receives the validated input of the route's schemas. Routes
+ * only accept it with `validate: "before"` and schemas matching `Schemas`.
+ *
+ * @template Schemas - The schemas of the routes it is used on, keyed like the route options.
+ * @template TReq - Properties the middleware adds to the request.
+ * @template TLocals - Properties the middleware adds to response.locals.
+ *
+ * @example
+ * const audit: ValidatedMiddleware<{ bodySchema: typeof TransferSchema }> = (
+ *   req,
+ *   res,
+ *   next
+ * ) => {
+ *   auditLog.record(req.body.amount); // Typed from TransferSchema
+ *   next();
+ * };
+ */
+export type ValidatedMiddleware<
+  Schemas extends ValidatedSchemas,
+  TReq extends Record<string, any> = {},
+  TLocals extends Record<string, any> = {}
+> = ((
+  req: Omit<Request, keyof ValidatedInput<Schemas>> &
+    ValidatedInput<Schemas> &
+    TReq,
+  res: Response<any, TLocals>,
+  next: NextFunction
+) => void | Promise<void>) & {
+  // Only there for the type checker, which compares the schemas with the
+  // route's (see ValidatedMiddlewareCheck)
+  "~validatedSchemas"?: Schemas;
+};
+
+// Middleware that runs before validation, where ValidatedMiddleware is rejected
+type UnvalidatedMiddleware = TypedMiddleware<any, any> & {
+  "~validatedSchemas"?: undefined;
+};
+
+/**
+ * An entry of a route's `middleware` option. With `validate: "before"` a
+ * middleware written inline receives the request as validated by the route's
+ * schemas; any other middleware is checked by `ValidatedMiddlewareCheck`.
+ *
+ * @template Validate - The route's `validate` option.
+ * @template ValidatedReq - The route's request after validation.
+ */
+export type RouteMiddleware<Validate, ValidatedReq> =
+  | ((
+      req: Validate extends "before" ? ValidatedReq : any,
+      res: Response<any, any>,
+      next: NextFunction
+    ) => void | Promise<void>)
+  // Lets middleware with other request types through without taking part in
+  // the contextual typing of inline middleware
+  | Function;
+
+/**
+ * The schemas a ValidatedMiddleware is typed against.
+ */
+export interface ValidatedSchemas {
+  bodySchema?: unknown;
+  querySchema?: unknown;
+  paramsSchema?: unknown;
+  headersSchema?: unknown;
+}
+
+// Request properties holding the validated input of each declared schema
+type ValidatedInput<Schemas extends ValidatedSchemas> =
+  ("bodySchema" extends keyof Schemas
+    ? { body: InferSchemaOutput<Schemas["bodySchema"]> }
+    : {}) &
+    ("querySchema" extends keyof Schemas
+      ? { query: InferSchemaOutput<Schemas["querySchema"]> }
+      : {}) &
+    ("paramsSchema" extends keyof Schemas
+      ? { params: InferSchemaOutput<Schemas["paramsSchema"]> }
+      : {}) &
+    ValidatedHeaders<Schemas["headersSchema"]>;
+
+// Why a middleware cannot run on a route, if it cannot
+type MiddlewareMismatch<Middleware, Validate, ValidatedReq> =
+  Middleware extends { "~validatedSchemas"?: infer Schemas }
+    ? unknown extends Schemas
+      ? Middleware extends TypedMiddleware<any, any>
+        ? never
+        : "not a middleware function"
+      : Schemas extends ValidatedSchemas
+      ? Validate extends "before"
+        ? ValidatedReq extends ValidatedInput<Schemas>
+          ? never
+          : {
+              expects: ValidatedInput<Schemas>;
+              validated: Pick<
+                ValidatedReq,
+                keyof ValidatedInput<Schemas> & keyof ValidatedReq
+              >;
+            }
+        : 'ValidatedMiddleware requires validate: "before" on the route'
+      : never
+    : never;
+
+/**
+ * Resolves to `unknown` when every `ValidatedMiddleware` in a route's
+ * `middleware` runs after validation (`validate: "before"` on the route) and
+ * accepts what the route's schemas validate, and to an error shape otherwise
+ * so that a mismatching or misplaced middleware fails to type-check.
+ */
+export type ValidatedMiddlewareCheck<
+  Middleware extends readonly unknown[],
+  Validate,
+  ValidatedReq
+> = [
+  {
+    [Index in keyof Middleware]: MiddlewareMismatch<
+      Middleware[Index],
+      Validate,
+      ValidatedReq
+    >;
+  }[number]
+] extends [never]
+  ? unknown
+  : {
+      "~validatedMiddlewareMismatch": {
+        [Index in keyof Middleware]: MiddlewareMismatch<
+          Middleware[Index],
+          Validate,
+          ValidatedReq
+        >;
+      }[number];
+    };
+
+// Type of a route's `middleware` option: the middleware, checked against the route
+type MiddlewareOption<
+  Middleware extends readonly unknown[],
+  Validate,
+  ValidatedReq
+> = Middleware & ValidatedMiddlewareCheck<Middleware, Validate, ValidatedReq>;
+
 /**
  * Simplified TypedMiddleware for request-only extensions (backward compatibility)
  */
@@ -570,36 +1056,329 @@ export type LocalsOnlyMiddleware<TLocals extends Record<string, any>> =
   TypedMiddleware<{}, TLocals>;
 
 // Utility type to infer props from middleware array (no recursion depth limit)
-type InferMiddlewareProps<T extends readonly TypedMiddleware<any, any>[]> =
-  T extends readonly [infer First, ...infer Rest]
-    ? First extends TypedMiddleware<infer FirstReq, any>
-      ? Rest extends readonly TypedMiddleware<any, any>[]
-        ? FirstReq & InferMiddlewareProps<Rest>
-        : FirstReq
-      : {}
-    : {};
+type InferMiddlewareProps<T extends readonly unknown[]> = T extends readonly [
+  infer First,
+  ...infer Rest
+]
+  ? First extends TypedMiddleware<infer FirstReq, any>
+    ? FirstReq & InferMiddlewareProps<Rest>
+    : InferMiddlewareProps<Rest>
+  : {};
 
 // Utility type to infer locals from middleware array (no recursion depth limit)
-type InferMiddlewareLocals<T extends readonly TypedMiddleware<any, any>[]> =
-  T extends readonly [infer First, ...infer Rest]
-    ? First extends TypedMiddleware<any, infer FirstLocals>
-      ? Rest extends readonly TypedMiddleware<any, any>[]
-        ? FirstLocals & InferMiddlewareLocals<Rest>
-        : FirstLocals
-      : {}
-    : {};
+type InferMiddlewareLocals<T extends readonly unknown[]> = T extends readonly [
+  infer First,
+  ...infer Rest
+]
+  ? First extends TypedMiddleware<any, infer FirstLocals>
+    ? FirstLocals & InferMiddlewareLocals<Rest>
+    : InferMiddlewareLocals<Rest>
+  : {};
+
+/**
+ * Resolves to `unknown` when the input keys of a params schema match the
+ * parameters extracted from the path literal, and to an error shape otherwise
+ * so that a mismatching `paramsSchema` fails to type-check.
+ *
+ * Non-literal paths (`string`) cannot be checked and always pass.
+ */
+export type ParamsSchemaCheck<
+  Path extends string,
+  ParamsSchema
+> = string extends Path
+  ? unknown
+  : ParamsSchema extends AnyStandardSchema
+  ? [
+      Exclude<keyof InferInput<ParamsSchema>, keyof ExtractRouteParams<Path>>,
+      Exclude<keyof ExtractRouteParams<Path>, keyof InferInput<ParamsSchema>>
+    ] extends [never, never]
+    ? unknown
+    : {
+        "~paramsSchemaMismatch": {
+          unknownKeys: Exclude<
+            keyof InferInput<ParamsSchema>,
+            keyof ExtractRouteParams<Path>
+          >;
+          missingKeys: Exclude<
+            keyof ExtractRouteParams<Path>,
+            keyof InferInput<ParamsSchema>
+          >;
+        };
+      }
+  : unknown;
+
+// Type of the `paramsSchema` option: the schema itself, checked against the path
+export type ParamsSchemaOption<
+  Path extends string,
+  ParamsSchema
+> = ParamsSchema & ParamsSchemaCheck<Path, ParamsSchema>;
+
+// Route params are typed from the params schema when one is given, otherwise
+// they are extracted from the path literal.
+export type InferRouteParams<
+  Path extends string,
+  ParamsSchema
+> = unknown extends ParamsSchema
+  ? ExtractRouteParams<Path>
+  : InferSchemaOutput<ParamsSchema>;
+
+// Validated headers are exposed on `req.validatedHeaders`; `req.headers` keeps
+// the raw incoming headers. The property only exists when a schema is given.
+export type ValidatedHeaders<HeadersSchema> = unknown extends HeadersSchema
+  ? {}
+  : { validatedHeaders: InferSchemaOutput<HeadersSchema> };
+
+/**
+ * Limits for a multipart file field declared in the `files` route option.
+ *
+ * @property maxSize - Maximum size of each file, in bytes (10 MiB by default).
+ * @property mimeTypes - Accepted MIME types; `image/*` style wildcards are allowed.
+ * @property required - Reject requests without a file for this field.
+ * @property maxCount - Accept up to this many files; the field is then typed as an array.
+ */
+export interface FileFieldOptions {
+  maxSize?: number;
+  mimeTypes?: string[];
+  required?: boolean;
+  maxCount?: number;
+}
+
+/**
+ * The file fields of a route, keyed by form field name.
+ */
+export type FileFields = Record<string, FileFieldOptions>;
+
+/**
+ * A file received in a multipart request. `buffer` is set by memory storage
+ * and `path` by disk storage.
+ */
+export interface UploadedFile {
+  fieldName: string;
+  originalName: string;
+  mimeType: string;
+  encoding: string;
+  size: number;
+  buffer?: Buffer;
+  path?: string;
+}
+
+/**
+ * The `req.files` of a route: one file (or `undefined` unless required) per
+ * field, or an array for fields with a `maxCount`.
+ */
+export type InferUploadedFiles<Files extends FileFields> = {
+  [Field in keyof Files]: Files[Field] extends { maxCount: number }
+    ? UploadedFile[]
+    : Files[Field] extends { required: true }
+    ? UploadedFile
+    : UploadedFile | undefined;
+};
+
+// `req.files` is only typed for routes that declare file fields
+export type WithUploadedFiles<Files> = {} extends Files
+  ? {}
+  : Files extends FileFields
+  ? { files: InferUploadedFiles<Files> }
+  : {};
+
+/**
+ * Where uploaded files go while the request is parsed. `handleFile` consumes
+ * the file stream and resolves with the fields it adds to the file (e.g.
+ * `buffer` or `path`); it must reject if the stream errors. `removeFile`
+ * cleans up files of a request that was rejected.
+ */
+export interface FileStorage {
+  handleFile(
+    stream: Readable,
+    file: UploadedFile
+  ): Promise<Partial<UploadedFile>>;
+  removeFile?(file: UploadedFile): Promise<void> | void;
+}
+
+/**
+ * Keeps uploaded files in memory as `file.buffer`. This is the default storage.
+ */
+export function memoryStorage(): FileStorage {
+  return {
+    handleFile: (stream) =>
+      new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.once("error", reject);
+        stream.once("end", () => resolve({ buffer: Buffer.concat(chunks) }));
+      }),
+  };
+}
+
+/**
+ * Writes uploaded files to `directory` (the OS temp directory by default)
+ * under a random name, exposed as `file.path`. Files of accepted requests are
+ * left for the handler to move or delete.
+ */
+export function diskStorage(options: { directory?: string } = {}): FileStorage {
+  const directory = options.directory ?? tmpdir();
+  return {
+    async handleFile(stream) {
+      const path = join(directory, randomUUID());
+      try {
+        await pipeline(stream, createWriteStream(path));
+      } catch (error) {
+        await rm(path, { force: true });
+        throw error;
+      }
+      return { path };
+    },
+    async removeFile(file) {
+      if (file.path) {
+        await rm(file.path, { force: true });
+      }
+    },
+  };
+}
+
+// Upload limits for fields that do not set their own, so a single request
+// cannot buffer an unbounded amount of data
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const MULTIPART_LIMITS = { fields: 100, fieldSize: 1024 * 1024 };
+
+// Matches a MIME type against a list that may contain `type/*` wildcards
+function matchesMimeType(mimeType: string, accepted: string[]): boolean {
+  return accepted.some((pattern) =>
+    pattern.endsWith("/*")
+      ? mimeType.startsWith(pattern.slice(0, -1))
+      : mimeType === pattern
+  );
+}
+
+// Cookies keep Express' untyped `any` unless a schema is given for them.
+export type InferCookies<CookiesSchema> = unknown extends CookiesSchema
+  ? any
+  : InferSchemaOutput<CookiesSchema>;
 
 // Enhanced Request type with proper inference
 export type SchemaRequest<
   Path extends string = string,
   BodySchema extends AnyStandardSchema | unknown = unknown,
   QuerySchema extends AnyStandardSchema | unknown = unknown,
-  MiddlewareProps extends Record<string, any> = {}
-> = Omit<Request, "params" | "query" | "body"> & {
-  params: ExtractRouteParams<Path>;
-  body: BodySchema extends unknown ? InferSchemaOutput<BodySchema> : unknown;
-  query: QuerySchema extends unknown ? InferSchemaOutput<QuerySchema> : unknown;
-} & MiddlewareProps;
+  MiddlewareProps extends Record<string, any> = {},
+  ParamsSchema extends AnyStandardSchema | unknown = unknown,
+  HeadersSchema extends AnyStandardSchema | unknown = unknown,
+  CookiesSchema extends AnyStandardSchema | unknown = unknown,
+  SignedCookiesSchema extends AnyStandardSchema | unknown = unknown,
+  Files = unknown
+> = Omit<
+  Request,
+  "params" | "query" | "body" | "cookies" | "signedCookies" | "is"
+> & {
+  params: InferRouteParams<Path, ParamsSchema>;
+  query: InferRequestQuery<MiddlewareProps, QuerySchema>;
+  cookies: InferCookies<CookiesSchema>;
+  signedCookies: InferCookies<SignedCookiesSchema>;
+} & RequestBody<BodySchema> &
+  ValidatedHeaders<HeadersSchema> &
+  WithUploadedFiles<Files> &
+  ScopedProps<MiddlewareProps>;
+
+/**
+ * Body schemas keyed by content type, e.g.
+ * `{ 'application/json': A, 'application/x-www-form-urlencoded': B }`.
+ * The router parses the body for the matching type and answers other
+ * content types with 415 Unsupported Media Type.
+ */
+export type BodySchemaMap = { [contentType: string]: AnyStandardSchema };
+
+// A single body schema types `body` directly. With a content-type map the
+// body is a union, and `req.is()` narrows it to the schema of the given type.
+type RequestBody<BodySchema> = BodySchema extends AnyStandardSchema
+  ? { body: InferSchemaOutput<BodySchema>; is: Request["is"] }
+  : BodySchema extends BodySchemaMap
+  ? {
+      [ContentType in keyof BodySchema & string]: {
+        body: InferSchemaOutput<BodySchema[ContentType]>;
+        is<Type extends keyof BodySchema & string>(
+          type: Type
+        ): this is { body: InferSchemaOutput<BodySchema[Type]> };
+        is(type: string | string[]): string | false | null;
+      };
+    }[keyof BodySchema & string]
+  : {
+      body: BodySchema extends unknown
+        ? InferSchemaOutput<BodySchema>
+        : unknown;
+      is: Request["is"];
+    };
+
+// A group's querySchema types `query` through the middleware props; a route
+// with its own querySchema replaces it.
+type InferRequestQuery<
+  MiddlewareProps extends Record<string, any>,
+  QuerySchema
+> = unknown extends QuerySchema
+  ? "query" extends keyof MiddlewareProps
+    ? MiddlewareProps["query"]
+    : InferSchemaOutput<QuerySchema>
+  : QuerySchema extends unknown
+  ? InferSchemaOutput<QuerySchema>
+  : unknown;
+
+type ScopedProps<MiddlewareProps extends Record<string, any>> = [
+  Extract<keyof MiddlewareProps, "query" | "~responses">
+] extends [never]
+  ? MiddlewareProps
+  : Omit<MiddlewareProps, "query" | "~responses">;
+
+/**
+ * Response body schemas keyed by HTTP status code, e.g.
+ * `{ 200: UserSchema, 404: NotFoundSchema }`.
+ */
+export type ResponseSchemas = { [status: number]: AnyStandardSchema };
+
+// A group's responses reach its routes through the middleware props, under a
+// key no request has; the route's own responses override them per status.
+type RouteResponses<
+  MiddlewareProps extends Record<string, any>,
+  Responses
+> = "~responses" extends keyof MiddlewareProps
+  ? unknown extends Responses
+    ? MiddlewareProps["~responses"]
+    : Omit<MiddlewareProps["~responses"], keyof Responses> & Responses
+  : Responses;
+
+// Body accepted by `res.json()` / `res.send()` for a declared status code
+export type InferResponseBody<Responses, Status> =
+  Status extends keyof Responses ? InferInput<Responses[Status]> : never;
+
+/**
+ * Express response whose `status`, `sendStatus`, `json` and `send` only accept
+ * the status codes and bodies declared in a route's `responses` option.
+ *
+ * @template Responses - The declared response schemas.
+ * @template Locals - The shape of response.locals.
+ * @template Status - The status code the body is checked against (200 until `status()` is called).
+ */
+export interface TypedResponse<
+  Responses extends ResponseSchemas,
+  Locals extends Record<string, any> = {},
+  Status extends number = 200
+> extends Omit<
+    Response<any, Locals>,
+    "status" | "sendStatus" | "json" | "send"
+  > {
+  status<Code extends keyof Responses & number>(
+    code: Code
+  ): TypedResponse<Responses, Locals, Code>;
+  sendStatus(code: keyof Responses & number): this;
+  json(body: InferResponseBody<Responses, Status>): this;
+  send(body?: InferResponseBody<Responses, Status>): this;
+}
+
+// Routes without declared responses keep the regular Express response
+export type SchemaResponse<
+  Responses,
+  Locals extends Record<string, any> = {}
+> = Responses extends ResponseSchemas
+  ? TypedResponse<Responses, Locals>
+  : Response<any, Locals>;
 
 // Route handler type
 export type SchemaRouteHandler<
@@ -607,10 +1386,29 @@ export type SchemaRouteHandler<
   BodySchema extends AnyStandardSchema | unknown = unknown,
   QuerySchema extends AnyStandardSchema | unknown = unknown,
   MiddlewareProps extends Record<string, any> = {},
-  ResponseLocals extends Record<string, any> = {}
+  ResponseLocals extends Record<string, any> = {},
+  ParamsSchema extends AnyStandardSchema | unknown = unknown,
+  HeadersSchema extends AnyStandardSchema | unknown = unknown,
+  CookiesSchema extends AnyStandardSchema | unknown = unknown,
+  SignedCookiesSchema extends AnyStandardSchema | unknown = unknown,
+  Responses extends ResponseSchemas | unknown = unknown,
+  Files = unknown
 > = (
-  req: SchemaRequest<Path, BodySchema, QuerySchema, MiddlewareProps>,
-  res: Response<any, ResponseLocals>,
+  req: SchemaRequest<
+    Path,
+    BodySchema,
+    QuerySchema,
+    MiddlewareProps,
+    ParamsSchema,
+    HeadersSchema,
+    CookiesSchema,
+    SignedCookiesSchema,
+    Files
+  >,
+  res: SchemaResponse<
+    RouteResponses<MiddlewareProps, Responses>,
+    ResponseLocals
+  >,
   next?: NextFunction
 ) =>
   | void
@@ -618,702 +1416,4626 @@ export type SchemaRouteHandler<
   | Promise<void | undefined>
   | Response
   | Promise<Response>
-  | Promise<Response | undefined>;
+  | Promise<Response | undefined>
+  | TypedResponse<any, any, any>
+  | Promise<TypedResponse<any, any, any> | undefined>;
 
 /**
- * Options for defining a typed route, including schemas and middleware.
+ * How outgoing responses are validated against the route's response schema.
  *
- * @template BodySchema - Schema for request body validation.
- * @template QuerySchema - Schema for query parameter validation.
- * @property bodySchema - Optional schema for validating the request body.
- * @property querySchema - Optional schema for validating the query string.
- * @property middleware - Optional array of TypedMiddleware for this route.
+ * - `off`: no validation
+ * - `log`: report failures and send the payload unchanged
+ * - `reject`: replace invalid payloads with a 500 error response
+ * - `strip`: send the schema output instead of the payload (dropping unknown
+ *   keys for schemas that strip them); failures are reported and the payload
+ *   is sent unchanged
  */
-export interface RouteOptions<
-  BodySchema extends AnyStandardSchema | unknown = unknown,
-  QuerySchema extends AnyStandardSchema | unknown = unknown
-> {
-  bodySchema?: BodySchema;
-  querySchema?: QuerySchema;
-  middleware?: TypedMiddleware<any, any>[];
+export type ResponseValidationMode = "off" | "log" | "reject" | "strip";
+
+/**
+ * Details passed to the response validation logger.
+ */
+export interface ResponseValidationReport {
+  method: string;
+  path: string;
+  statusCode: number;
+  issues: readonly any[];
 }
 
-// HTTP methods
-export type HttpMethod =
-  | "get"
-  | "post"
-  | "put"
-  | "delete"
-  | "patch"
-  | "options"
-  | "head"
-  | "all";
+/**
+ * Options for validating outgoing responses.
+ *
+ * @property mode - What to do with invalid payloads (see ResponseValidationMode).
+ * @property sampleRate - Fraction of requests to validate, from 0 to 1 (defaults to 1).
+ * @property logger - Called with every failure (defaults to the router's `logger`).
+ */
+export interface ResponseValidationOptions {
+  mode: ResponseValidationMode;
+  sampleRate?: number;
+  logger?: (report: ResponseValidationReport) => void;
+}
 
-// Main typed router class
-class TypedRouter<
-  RouterMiddlewareProps extends Record<string, any> = {},
-  RouterLocals extends Record<string, any> = {}
-> {
-  private router: express.Router;
+/**
+ * The part of the request a validation error came from.
+ */
+export type ValidationSource =
+  | "params"
+  | "headers"
+  | "cookies"
+  | "signedCookies"
+  | "body"
+  | "query"
+  | "files";
+
+/**
+ * A Standard Schema issue with its path flattened into a dotted string
+ * (e.g. `items.0.name`). Issues at the root have an empty path.
+ */
+export interface ValidationIssue {
+  message: string;
+  path: string;
+}
+
+/**
+ * The response sent when request validation fails.
+ */
+export interface ValidationErrorResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Builds the response for failed request validation.
+ *
+ * @param issues - The normalized validation issues.
+ * @param context - Where the issues came from and the request being validated.
+ */
+export type ValidationErrorFormatter = (
+  issues: ValidationIssue[],
+  context: { source: ValidationSource; req: Request }
+) => ValidationErrorResponse;
+
+// How a route reports request validation failures
+interface ValidationErrorHandling {
+  formatter: ValidationErrorFormatter;
+  forward: boolean;
+}
+
+/**
+ * The formatter used when none is configured: a 400 with
+ * `{ error: "Validation failed", details: issues }`.
+ */
+export const defaultValidationErrorFormatter: ValidationErrorFormatter = (
+  issues
+) => ({
+  status: 400,
+  body: { error: "Validation failed", details: issues },
+});
+
+/**
+ * An RFC 9457 Problem Details object, served as `application/problem+json`.
+ * Extension members (such as `errors` for validation failures) sit next to
+ * the standard fields.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: ValidationIssue[];
+  [extension: string]: unknown;
+}
+
+const PROBLEM_JSON_CONTENT_TYPE = "application/problem+json";
+
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  409: "Conflict",
+  410: "Gone",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Content",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
 
-  constructor() {
-    this.router = express.Router();
+/**
+ * Options for an HttpError.
+ *
+ * @property type - A URI identifying the problem type (defaults to `about:blank`).
+ * @property title - A short summary of the problem type (defaults to the status text).
+ * @property headers - Response headers to send with the error (e.g. `Retry-After`).
+ * @property extensions - Extra members added to the Problem Details object.
+ * @property cause - The underlying error, if any.
+ */
+export interface HttpErrorOptions {
+  type?: string;
+  title?: string;
+  headers?: Record<string, string>;
+  extensions?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+/**
+ * An error carrying an HTTP status. Throw it from a handler or middleware (or
+ * pass it to `next()`) and the router responds with its status instead of
+ * handing it to Express' default 500 handler.
+ *
+ * @example
+ * router.get('/users/:id', async (req, res) => {
+ *   const user = await db.users.find(req.params.id);
+ *   if (!user) throw new HttpError(404, `User ${req.params.id} does not exist`);
+ *   res.json(user);
+ * });
+ */
+export class HttpError<Status extends number = number> extends Error {
+  readonly status: Status;
+  readonly type: string;
+  readonly title: string;
+  readonly detail: string | undefined;
+  readonly headers: Record<string, string>;
+  readonly extensions: Record<string, unknown>;
+
+  constructor(status: Status, detail?: string, options: HttpErrorOptions = {}) {
+    const title = options.title ?? STATUS_TITLES[status] ?? "Error";
+    super(detail ?? title, { cause: options.cause });
+    this.name = "HttpError";
+    this.status = status;
+    this.type = options.type ?? "about:blank";
+    this.title = title;
+    this.detail = detail;
+    this.headers = options.headers ?? {};
+    this.extensions = options.extensions ?? {};
   }
+
   /**
-   * Add typed middleware that extends the request with additional properties
-   * and/or adds properties to response.locals
-   */ /**
-   * Add typed middleware to the router.
-   * This middleware will apply to all routes defined after this call.
+   * Render the error as a Problem Details object.
    *
-   * @template TReq - Type extensions for the request object
-   * @template TLocals - Type extensions for response.locals
-   * @param middleware - The typed middleware function
-   * @returns A new router instance with updated types
+   * @param instance - A URI identifying this occurrence, usually the request URL.
    */
-  useMiddleware<
-    TReq extends Record<string, any> = {},
-    TLocals extends Record<string, any> = {}
-  >(
-    middleware: TypedMiddleware<TReq, TLocals>
-  ): TypedRouter<RouterMiddlewareProps & TReq, RouterLocals & TLocals> {
-    this.router.use(middleware as any);
-    return this as any;
+  toProblemDetails(instance?: string): ProblemDetails {
+    return {
+      ...this.extensions,
+      type: this.type,
+      title: this.title,
+      status: this.status,
+      ...(this.detail !== undefined && { detail: this.detail }),
+      ...(instance !== undefined && { instance }),
+    };
   }
-  /**
-   * Get the underlying Express router
-   */
-  getRouter(): express.Router {
-    return this.router;
+}
+
+/**
+ * Formats validation failures as RFC 9457 Problem Details, listing every issue
+ * in the `errors` extension. Used by default when `problemDetails` is enabled.
+ */
+export const problemDetailsFormatter: ValidationErrorFormatter = (
+  issues,
+  { source, req }
+) => ({
+  status: 400,
+  headers: { "Content-Type": PROBLEM_JSON_CONTENT_TYPE },
+  body: new HttpError(400, `Request ${source} failed validation`, {
+    extensions: { errors: issues },
+  }).toProblemDetails(req.originalUrl),
+});
+
+function normalizeIssues(
+  issues: ReadonlyArray<StandardSchemaV1.Issue>
+): ValidationIssue[] {
+  return issues.map((issue) => ({
+    message: issue.message,
+    path: getDotPath(issue) ?? "",
+  }));
+}
+
+/**
+ * When request validation runs relative to a route's `middleware`:
+ *
+ * - `after`: the route's middleware runs first (default)
+ * - `before`: invalid requests are rejected before the middleware runs, and
+ *   the middleware sees the validated `req.body`, `req.query`, etc.
+ */
+export type ValidationOrder = "before" | "after";
+
+/**
+ * Which conversions query coercion applies before validation. Every
+ * conversion is enabled unless set to `false`.
+ *
+ * @property booleans - `"true"` / `"false"` become booleans.
+ * @property numbers - Numeric strings (without leading zeros) become numbers.
+ * @property commaSeparated - `a=1,2` becomes `[1, 2]`; repeated keys are always arrays.
+ * @property nested - `a[b]=c` becomes `{ a: { b: "c" } }` and `a[]=c` becomes `{ a: ["c"] }`.
+ */
+export interface QueryCoercionOptions {
+  booleans?: boolean;
+  numbers?: boolean;
+  commaSeparated?: boolean;
+  nested?: boolean;
+}
+
+/**
+ * The stages of a route's lifecycle that hooks can be added to, in order:
+ *
+ * - `onRequest`: before any middleware or validation
+ * - `preValidation`: right before the request schemas are validated
+ * - `preHandler`: after validation, right before the route handler
+ * - `onResponse`: after the response has finished
+ * - `onError`: when the handler, a middleware or another hook fails
+ */
+export type HookStage =
+  | "onRequest"
+  | "preValidation"
+  | "preHandler"
+  | "onResponse"
+  | "onError";
+
+/**
+ * Details passed to `onResponse` hooks.
+ */
+export interface ResponseInfo {
+  statusCode: number;
+  durationMs: number;
+}
+
+/**
+ * Hook signatures for each lifecycle stage. `onRequest`, `preValidation`,
+ * `preHandler` and `onError` hooks may be async and may send a response,
+ * which ends the request there. An `onError` hook that sends nothing passes
+ * the error on to the router's error handling.
+ *
+ * @template Req - The request before validation.
+ * @template ValidatedReq - The request after validation.
+ * @template Res - The response.
+ */
+export interface LifecycleHooks<
+  Req = Request,
+  ValidatedReq = Req,
+  Res = Response
+> {
+  onRequest: (req: Request, res: Res) => void | Promise<void>;
+  preValidation: (req: Req, res: Res) => void | Promise<void>;
+  preHandler: (req: ValidatedReq, res: Res) => void | Promise<void>;
+  onResponse: (
+    req: ValidatedReq,
+    res: Res,
+    info: ResponseInfo
+  ) => void | Promise<void>;
+  onError: (error: unknown, req: Request, res: Res) => void | Promise<void>;
+}
+
+/**
+ * Hooks shared by routes with different schemas: the validated request has
+ * untyped params, body and query.
+ */
+export type RouterHooks = LifecycleHooks<
+  Request,
+  SchemaRequest<string, any, any, {}, any, any, any, any>
+>;
+
+// One hook or a list of hooks per stage, as declared in options
+type HookOptions<Hooks extends LifecycleHooks<any, any, any>> = {
+  [Stage in HookStage]?: Hooks[Stage] | Hooks[Stage][];
+};
+
+/**
+ * Hooks declared on a route, builder or group, one function or a list per
+ * stage. `preHandler` and `onResponse` hooks see the request as validated by
+ * the given path and schemas; without type arguments it is untyped, as for
+ * router hooks.
+ *
+ * @template Path - The route path.
+ * @template BodySchema - Schema for request body validation.
+ * @template QuerySchema - Schema for query parameter validation.
+ * @template ParamsSchema - Schema for route parameter validation.
+ * @template HeadersSchema - Schema for request header validation.
+ * @template CookiesSchema - Schema for cookie validation.
+ * @template SignedCookiesSchema - Schema for signed cookie validation.
+ * @template Files - Multipart file fields accepted by the route.
+ */
+export type RouteHooks<
+  Path extends string = string,
+  BodySchema = any,
+  QuerySchema = any,
+  ParamsSchema = any,
+  HeadersSchema = any,
+  CookiesSchema = any,
+  SignedCookiesSchema = any,
+  Files = unknown
+> = HookOptions<
+  LifecycleHooks<
+    Request,
+    SchemaRequest<
+      Path,
+      BodySchema,
+      QuerySchema,
+      {},
+      ParamsSchema,
+      HeadersSchema,
+      CookiesSchema,
+      SignedCookiesSchema,
+      Files
+    >
+  >
+>;
+
+// Router-level hooks by stage
+type HookRegistry = {
+  [Stage in HookStage]: RouterHooks[Stage][];
+};
+
+// A single hook or a list of hooks as a list
+function toHookList<T>(hooks: T | T[] | undefined): T[] {
+  return hooks === undefined ? [] : Array.isArray(hooks) ? hooks : [hooks];
+}
+
+/**
+ * Descriptive metadata attached to a route. It is returned by `router.routes()`
+ * and used for the matching OpenAPI operation fields; any other keys are kept
+ * for custom tooling.
+ */
+export interface RouteMeta {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  operationId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Route options that do not change the handler's types, shared by every overload.
+ *
+ * @property responseSchema - Optional schema every successful (2xx) JSON payload is validated against.
+ * @property responseValidation - Optional override of the router's response validation settings.
+ * @property meta - Optional metadata for route listings and documentation.
+ * @property validationErrorFormatter - Optional override of the router's validation error formatter.
+ * @property forwardValidationErrors - Optional override of the router's `forwardValidationErrors` setting.
+ * @property validate - Whether request validation runs `before` or `after` (default) the route's middleware.
+ * @property coerceQuery - Optional override of the router's query coercion.
+ * @property fileStorage - Optional override of the router's storage for uploaded files.
+ */
+export interface RouteSettings {
+  responseSchema?: AnyStandardSchema;
+  responseValidation?: ResponseValidationMode | ResponseValidationOptions;
+  meta?: RouteMeta;
+  validationErrorFormatter?: ValidationErrorFormatter;
+  forwardValidationErrors?: boolean;
+  validate?: ValidationOrder;
+  coerceQuery?: boolean | QueryCoercionOptions;
+  fileStorage?: FileStorage;
+}
+
+/**
+ * Options for defining a typed route, including schemas and middleware.
+ *
+ * @template BodySchema - Schema for request body validation.
+ * @template QuerySchema - Schema for query parameter validation.
+ * @template ParamsSchema - Schema for route parameter validation.
+ * @template Path - The route path, used to check the params schema keys.
+ * @template HeadersSchema - Schema for request header validation.
+ * @template CookiesSchema - Schema for cookie validation.
+ * @template SignedCookiesSchema - Schema for signed cookie validation.
+ * @template Responses - Response body schemas keyed by status code.
+ * @template Files - Multipart file fields accepted by the route.
+ * @template Name - The route name.
+ * @template ValidatedParamsSchema - The params schema the route validates with, which is the builder's for routes of `router.route()` without their own.
+ * @property name - Optional unique name for building the route's URL with `router.url()`.
+ * @property bodySchema - Optional schema for validating the request body.
+ * @property querySchema - Optional schema for validating the query string.
+ * @property paramsSchema - Optional schema for validating and transforming route params.
+ * @property headersSchema - Optional schema for validating request headers (case-insensitive).
+ * @property cookiesSchema - Optional schema for validating `req.cookies` (requires a cookie parser).
+ * @property signedCookiesSchema - Optional schema for validating `req.signedCookies` (requires a cookie parser with a secret).
+ * @property responses - Optional response body schemas keyed by status code; types `res.status().json()`.
+ * @property files - Optional multipart file fields; parses multipart/form-data requests and types `req.files`.
+ * @property responseSchema - Optional schema every successful (2xx) JSON payload is validated against.
+ * @property responseValidation - Optional override of the router's response validation settings.
+ * @property meta - Optional metadata for route listings and documentation.
+ * @property validationErrorFormatter - Optional override of the router's validation error formatter.
+ * @property forwardValidationErrors - Optional override of the router's `forwardValidationErrors` setting.
+ * @property validate - Whether request validation runs `before` or `after` (default) the route's middleware.
+ * @property hooks - Optional lifecycle hooks for this route, run after the router's hooks of the same stage.
+ * @property coerceQuery - Optional override of the router's query coercion.
+ * @property fileStorage - Optional override of the router's storage for uploaded files.
+ * @property middleware - Optional array of TypedMiddleware for this route.
+ */
+export interface RouteOptions<
+  BodySchema extends AnyStandardSchema | unknown = unknown,
+  QuerySchema extends AnyStandardSchema | unknown = unknown,
+  ParamsSchema extends AnyStandardSchema | unknown = unknown,
+  Path extends string = string,
+  HeadersSchema extends AnyStandardSchema | unknown = unknown,
+  CookiesSchema extends AnyStandardSchema | unknown = unknown,
+  SignedCookiesSchema extends AnyStandardSchema | unknown = unknown,
+  Responses extends ResponseSchemas | unknown = unknown,
+  Files extends FileFields = {},
+  Name extends string = string,
+  ValidatedParamsSchema = ParamsSchema
+> extends RouteSettings {
+  name?: Name;
+  bodySchema?: BodySchema;
+  querySchema?: QuerySchema;
+  paramsSchema?: ParamsSchemaOption<Path, ParamsSchema>;
+  headersSchema?: HeadersSchema;
+  cookiesSchema?: CookiesSchema;
+  signedCookiesSchema?: SignedCookiesSchema;
+  responses?: Responses;
+  files?: Files;
+  hooks?: RouteHooks<
+    Path,
+    BodySchema,
+    QuerySchema,
+    ValidatedParamsSchema,
+    HeadersSchema,
+    CookiesSchema,
+    SignedCookiesSchema,
+    Files
+  >;
+  middleware?: UnvalidatedMiddleware[];
+}
+
+// RouteOptions as seen by the runtime, where every schema and the request of
+// the hooks are erased to `any`
+type AnyRouteOptions = Omit<
+  RouteOptions<any, any, any, string, any, any, any, any>,
+  "hooks"
+> & { hooks?: HookOptions<LifecycleHooks<any, any, any>> };
+
+/**
+ * Options shared by every route of a `router.group()`.
+ *
+ * @template Prefix - The path prefix of the group.
+ * @template Middleware - The group's middleware tuple.
+ * @template QuerySchema - Schema for query validation shared by the group.
+ * @template Responses - Response schemas shared by the group.
+ * @property prefix - Optional path prefix for every route in the group.
+ * @property middleware - Optional middleware run before each route's own middleware.
+ * @property querySchema - Optional query schema for routes that do not declare their own.
+ * @property responses - Optional response schemas merged into each route's `responses`, which override them per status code.
+ * @property meta - Optional metadata; `tags` are added to each route's tags, other keys are defaults.
+ * @property hooks - Optional lifecycle hooks run before each route's own hooks of the same stage.
+ */
+export interface RouteGroupOptions<
+  Prefix extends string = "",
+  Middleware extends readonly UnvalidatedMiddleware[] = [],
+  QuerySchema extends AnyStandardSchema | unknown = unknown,
+  Responses extends ResponseSchemas | unknown = unknown
+> extends RouteSettings {
+  prefix?: Prefix;
+  middleware?: Middleware;
+  querySchema?: QuerySchema;
+  responses?: Responses;
+  hooks?: RouteHooks;
+}
+
+// Request props a group adds for its querySchema
+type GroupQuery<QuerySchema> = unknown extends QuerySchema
+  ? {}
+  : { query: InferSchemaOutput<QuerySchema> };
+
+// Middleware props of a group's routes with the group's responses merged over
+// those of enclosing groups (see RouteResponses)
+type GroupResponses<
+  MiddlewareProps extends Record<string, any>,
+  Responses
+> = unknown extends Responses
+  ? MiddlewareProps
+  : Omit<MiddlewareProps, "~responses"> & {
+      "~responses": RouteResponses<MiddlewareProps, Responses>;
+    };
+
+// Options inherited from enclosing groups, overridden by the route's own
+function mergeRouteOptions(
+  base: AnyRouteOptions,
+  override: AnyRouteOptions
+): AnyRouteOptions {
+  const tags = [...(base.meta?.tags ?? []), ...(override.meta?.tags ?? [])];
+  const stages = new Set([
+    ...Object.keys(base.hooks ?? {}),
+    ...Object.keys(override.hooks ?? {}),
+  ]) as Set<HookStage>;
+  return {
+    ...base,
+    ...override,
+    ...(stages.size
+      ? {
+          hooks: Object.fromEntries(
+            [...stages].map((stage) => [
+              stage,
+              [
+                ...toHookList(base.hooks?.[stage]),
+                ...toHookList(override.hooks?.[stage]),
+              ],
+            ])
+          ),
+        }
+      : {}),
+    ...(base.responses || override.responses
+      ? { responses: { ...base.responses, ...override.responses } }
+      : {}),
+    ...(base.meta || override.meta
+      ? {
+          meta: {
+            ...base.meta,
+            ...override.meta,
+            ...(tags.length ? { tags } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+// Where a router registers its routes: routers derived by useMiddleware() and
+// group() add middleware, a path prefix and default options to every route
+// registered on them.
+interface RouterScope {
+  prefix: string;
+  middleware: TypedMiddleware<any, any>[];
+  options: AnyRouteOptions;
+}
+
+// HTTP methods
+export type HttpMethod =
+  | "get"
+  | "post"
+  | "put"
+  | "delete"
+  | "patch"
+  | "options"
+  | "head"
+  | "all";
+
+/**
+ * Type-level record of a route registered on a TypedRouter. Every route
+ * method adds one to the router's `Routes` type parameter, which is what
+ * `createTypedClient` derives its methods from.
+ */
+export interface TypedRoute<
+  Method extends HttpMethod = HttpMethod,
+  Path extends string = string,
+  BodySchema = unknown,
+  QuerySchema = unknown,
+  ParamsSchema = unknown,
+  HeadersSchema = unknown,
+  Responses = unknown,
+  Name extends string = string
+> {
+  method: Method;
+  path: Path;
+  name: Name;
+  bodySchema: BodySchema;
+  querySchema: QuerySchema;
+  paramsSchema: ParamsSchema;
+  headersSchema: HeadersSchema;
+  responses: Responses;
+}
+
+// Type-level counterpart of joinPaths()
+type JoinPaths<
+  Prefix extends string,
+  Path extends string
+> = Prefix extends `${infer Trimmed}/`
+  ? JoinPaths<Trimmed, Path>
+  : Path extends "/" | ""
+  ? Prefix extends ""
+    ? "/"
+    : Prefix
+  : Path extends `/${string}`
+  ? `${Prefix}${Path}`
+  : `${Prefix}/${Path}`;
+
+/**
+ * Middleware props declaring the params a router receives from the prefix it
+ * is mounted at. They are merged into the `req.params` of every route.
+ *
+ * @example
+ * const repos = createTypedRouter<MountParams<'/orgs/:orgId'>>();
+ * repos.get('/repos/:repoId', (req, res) => {
+ *   const { orgId, repoId } = req.params; // Both typed as string
+ * });
+ * api.use('/orgs/:orgId', repos);
+ */
+export type MountParams<Prefix extends string> = {
+  params: ExtractRouteParams<Prefix>;
+};
+
+// The props or locals a mounted router declares but does not get, and what
+// it gets for them instead
+type MissingMountProps<Provided, Declared> = {
+  [Key in keyof Declared as Key extends keyof Provided
+    ? Provided[Key] extends Declared[Key]
+      ? never
+      : Key
+    : Key]: {
+    declared: Declared[Key];
+    provided: Key extends keyof Provided ? Provided[Key] : undefined;
+  };
+};
+
+/**
+ * Resolves to `unknown` when the router it is mounted on (with its middleware
+ * props and the params of the mount prefix) provides the middleware props and
+ * response locals a mounted router declares, and to an error shape naming the
+ * missing ones otherwise so that `use(prefix, child)` fails to type-check.
+ */
+export type MountedRouterCheck<
+  ProvidedProps,
+  ProvidedLocals,
+  ChildProps,
+  ChildLocals
+> = [ProvidedProps, ProvidedLocals] extends [ChildProps, ChildLocals]
+  ? unknown
+  : {
+      "~mountedRouterMismatch": {
+        props: MissingMountProps<ProvidedProps, ChildProps>;
+        locals: MissingMountProps<ProvidedLocals, ChildLocals>;
+      };
+    };
+
+// Routes registered with a `name`; unnamed routes have `string` as their name
+type NamedRoutes<Routes extends TypedRoute> = Routes extends TypedRoute
+  ? string extends Routes["name"]
+    ? never
+    : Routes
+  : never;
+
+/**
+ * Options for `router.url()`.
+ *
+ * @property query - Query string values; arrays become repeated keys.
+ */
+export interface RouteUrlOptions {
+  query?: ClientQuery;
+}
+
+// Arguments of `router.url()` after the name; params are optional when the
+// path has no required ones
+type RouteUrlArgs<Path extends string> = {} extends ExtractRouteParams<Path>
+  ? [params?: ExtractRouteParams<Path>, options?: RouteUrlOptions]
+  : [params: ExtractRouteParams<Path>, options?: RouteUrlOptions];
+
+// Routes of a mounted router, with their paths moved under the mount prefix
+type PrefixRoutes<
+  Prefix extends string,
+  Routes extends TypedRoute
+> = Routes extends TypedRoute<
+  infer Method,
+  infer Path,
+  infer BodySchema,
+  infer QuerySchema,
+  infer ParamsSchema,
+  infer HeadersSchema,
+  infer Responses,
+  infer Name
+>
+  ? TypedRoute<
+      Method,
+      JoinPaths<Prefix, Path>,
+      BodySchema,
+      QuerySchema,
+      ParamsSchema,
+      HeadersSchema,
+      Responses,
+      Name
+    >
+  : never;
+
+/**
+ * A route registered on a TypedRouter, as returned by `router.routes()`.
+ *
+ * @property method - The HTTP method the route was registered with.
+ * @property path - The full path, including the prefixes of mounted routers.
+ * @property name - The name declared with the `name` route option.
+ * @property schemas - The schemas declared in the route options.
+ * @property middleware - Names of the router-level and per-route middleware, in order.
+ * @property meta - The metadata declared with the `meta` route option.
+ * @property options - The raw route options.
+ */
+export interface RouteRecord {
+  method: HttpMethod;
+  path: string;
+  name?: string;
+  schemas: {
+    params?: AnyStandardSchema;
+    query?: AnyStandardSchema;
+    body?: AnyStandardSchema | BodySchemaMap;
+    headers?: AnyStandardSchema;
+    cookies?: AnyStandardSchema;
+    signedCookies?: AnyStandardSchema;
+    response?: AnyStandardSchema;
+    responses?: ResponseSchemas;
+  };
+  middleware: string[];
+  meta: RouteMeta;
+  options: AnyRouteOptions;
+}
+
+// Entries of a router's registry: its own routes and mounted typed routers
+type RegistryEntry =
+  // passThrough: the handler takes `next`, so it may hand the request on
+  | { type: "route"; route: RouteRecord; passThrough: boolean }
+  | {
+      type: "mount";
+      prefix: string;
+      router: TypedRouter<any, any, any>;
+      middleware: string[];
+    };
+
+// Join a mount prefix and a route path without doubling or dropping slashes
+function joinPaths(prefix: string, path: string): string {
+  const trimmed = prefix.replace(/\/+$/, "");
+  if (path === "/" || path === "") return trimmed || "/";
+  return trimmed + (path.startsWith("/") ? path : `/${path}`);
+}
+
+// Paths that match the same requests, with param names left out
+function pathSignature(path: string): string {
+  return JSON.stringify(
+    parsePath(path.replace(/\/+$/, "") || "/"),
+    (key, value) => (key === "name" ? undefined : value)
+  );
+}
+
+// A regular expression for the request paths an Express path matches,
+// case-insensitive and with an optional trailing slash like Express' defaults
+function pathMatcher(path: string): RegExp {
+  const toSource = (tokens: PathToken[]): string =>
+    tokens
+      .map((token) => {
+        switch (token.type) {
+          case "literal":
+            return token.value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          case "param":
+            return "[^/]+";
+          case "constraint":
+            return `(?:${token.pattern})`;
+          case "repeating":
+            return token.optional
+              ? "(?:[^/]+(?:/[^/]+)*)?"
+              : "[^/]+(?:/[^/]+)*";
+          case "wildcard":
+            return ".+";
+          case "optional":
+            return `(?:${toSource(token.tokens)})?`;
+        }
+      })
+      .join("");
+  return new RegExp(
+    `^${toSource(parsePath(path.replace(/\/+$/, "")))}/?$`,
+    "i"
+  );
+}
+
+// A registered route as far as the conflict check is concerned
+interface ConflictCandidate {
+  method: HttpMethod;
+  path: string;
+  passThrough: boolean;
+}
+
+// Why a new route can never be reached, if an earlier route answers every
+// request it would match: the same path, or a pattern matching a literal path.
+// `all` routes often only pass requests on, so they are only counted when
+// their handler cannot call next(), and never as duplicates.
+function findRouteConflict(
+  routes: ConflictCandidate[],
+  method: HttpMethod,
+  path: string
+): string | undefined {
+  const tokens = parsePath(path);
+  const literalPath = tokens.every((token) => token.type === "literal")
+    ? tokens.map((token) => (token as { value: string }).value).join("")
+    : undefined;
+  const signature = pathSignature(path);
+  for (const route of routes) {
+    if (route.method !== method && route.method !== "all") continue;
+    if (route.method === "all" && route.passThrough) continue;
+    const earlier = `${route.method.toUpperCase()} ${route.path}`;
+    const samePath = pathSignature(route.path) === signature;
+    if (samePath && route.method !== "all") {
+      return `Route ${method.toUpperCase()} ${path} duplicates ${earlier}`;
+    }
+    if (
+      samePath ||
+      (literalPath !== undefined && pathMatcher(route.path).test(literalPath))
+    ) {
+      return `Route ${method.toUpperCase()} ${path} is shadowed by ${earlier}, which is registered before it`;
+    }
   }
-  // Method overloads for GET requests with automatic middleware type inference
-  get<Path extends string>(
-    path: Path,
-    handler: SchemaRouteHandler<
+  return undefined;
+}
+
+// Name a middleware function for route listings
+function middlewareName(middleware: Function): string {
+  return middleware.name || "anonymous";
+}
+
+// JSON Schema object produced by a schema converter
+export type JSONSchema = Record<string, any>;
+
+/**
+ * Converts a Standard Schema into JSON Schema for OpenAPI documents.
+ *
+ * Standard Schema does not describe the shape of a schema, so the conversion
+ * is delegated to the schema library (e.g. `z.toJSONSchema` for Zod 4).
+ *
+ * @param schema - The schema passed to the route options.
+ * @param context - Whether the schema describes request input or response output.
+ * @returns The JSON Schema, or undefined to leave the schema unspecified.
+ */
+export type SchemaConverter = (
+  schema: AnyStandardSchema,
+  context: { io: "input" | "output" }
+) => JSONSchema | undefined;
+
+/**
+ * Options for generating an OpenAPI document with `router.toOpenAPI()`.
+ *
+ * @property info - The OpenAPI `info` object (title and version are required).
+ * @property servers - Optional OpenAPI `servers` list.
+ * @property schemaConverter - Optional converter from schemas to JSON Schema.
+ */
+export interface OpenAPIOptions {
+  info: { title: string; version: string; [key: string]: any };
+  servers?: { url: string; description?: string; [key: string]: any }[];
+  schemaConverter?: SchemaConverter;
+}
+
+// Minimal OpenAPI 3.1 document shape produced by `router.toOpenAPI()`
+export interface OpenAPIDocument {
+  openapi: "3.1.0";
+  info: OpenAPIOptions["info"];
+  servers?: OpenAPIOptions["servers"];
+  paths: Record<string, Record<string, Record<string, any>>>;
+}
+
+// Methods listed in an Allow header, in order
+const ALLOW_METHODS = [
+  "get",
+  "head",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "options",
+] as const;
+
+// Methods an `all` route is documented under
+const OPENAPI_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+] as const;
+
+// Methods of RouteMethods, on routers and on route builders
+const ROUTE_METHODS: HttpMethod[] = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "head",
+  "options",
+  "all",
+];
+
+/**
+ * Default schema converter: uses the Standard JSON Schema extension
+ * (`~standard.jsonSchema`) when the schema library provides it, otherwise
+ * leaves the schema unspecified.
+ */
+const defaultSchemaConverter: SchemaConverter = (schema, { io }) => {
+  const jsonSchema = (schema as any)?.["~standard"]?.jsonSchema;
+  if (jsonSchema && typeof jsonSchema[io] === "function") {
+    const { $schema: _, ...rest } = jsonSchema[io]({
+      target: "draft-2020-12",
+    });
+    return rest;
+  }
+  return undefined;
+};
+
+/**
+ * Expand a parsed path into OpenAPI path templates. OpenAPI has no
+ * optional path segments, so every combination of optional groups becomes
+ * its own path.
+ */
+function toOpenAPIPaths(
+  tokens: PathToken[]
+): { path: string; params: { name: string; pattern?: string }[] }[] {
+  let results = [
+    { path: "", params: [] as { name: string; pattern?: string }[] },
+  ];
+  for (const token of tokens) {
+    if (token.type === "optional") {
+      const expanded = toOpenAPIPaths(token.tokens);
+      results = results.flatMap((result) => [
+        result,
+        ...expanded.map((option) => ({
+          path: result.path + option.path,
+          params: [...result.params, ...option.params],
+        })),
+      ]);
+    } else if (token.type === "literal") {
+      results = results.map((result) => ({
+        ...result,
+        path: result.path + token.value,
+      }));
+    } else {
+      const param =
+        token.type === "constraint"
+          ? { name: token.name, pattern: token.pattern }
+          : { name: token.name };
+      results = results.map((result) => ({
+        path: `${result.path}{${token.name}}`,
+        params: [...result.params, param],
+      }));
+    }
+  }
+  return results;
+}
+
+// Turn the properties of an object JSON Schema into OpenAPI parameters
+function toOpenAPIParameters(
+  location: "query" | "header" | "cookie",
+  jsonSchema: JSONSchema | undefined
+): Record<string, any>[] {
+  const properties: Record<string, JSONSchema> = jsonSchema?.properties ?? {};
+  const required: string[] = jsonSchema?.required ?? [];
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    in: location,
+    required: required.includes(name),
+    schema,
+  }));
+}
+
+// Describe a multipart body: the body schema's fields plus a binary
+// property per file field
+function toMultipartJSONSchema(
+  files: FileFields,
+  bodyJSONSchema: JSONSchema | undefined
+): JSONSchema {
+  const binary = { type: "string", format: "binary" };
+  return {
+    type: "object",
+    properties: {
+      ...bodyJSONSchema?.properties,
+      ...Object.fromEntries(
+        Object.entries(files).map(([field, options]) => [
+          field,
+          options.maxCount === undefined
+            ? binary
+            : { type: "array", items: binary, maxItems: options.maxCount },
+        ])
+      ),
+    },
+    required: [
+      ...(bodyJSONSchema?.required ?? []),
+      ...Object.keys(files).filter((field) => files[field].required),
+    ],
+  };
+}
+
+// Build an OpenAPI 3.1 document from the routes registered on a router
+function buildOpenAPIDocument(
+  routes: RouteRecord[],
+  options: OpenAPIOptions
+): OpenAPIDocument {
+  const convert = options.schemaConverter ?? defaultSchemaConverter;
+  const toJSONSchema = (schema: unknown, io: "input" | "output") =>
+    schema ? convert(schema as AnyStandardSchema, { io }) : undefined;
+
+  const paths: OpenAPIDocument["paths"] = {};
+  for (const { method, path, meta, options: routeOptions } of routes) {
+    const { summary, description, tags, deprecated, operationId } = meta;
+    // Every path and method gets its own operation, so no objects are
+    // shared between them
+    const createOperation = (
+      template: ReturnType<typeof toOpenAPIPaths>[number],
+      id: string | undefined
+    ) => {
+      const paramsJSONSchema = toJSONSchema(routeOptions.paramsSchema, "input");
+      const bodySchemas: Record<string, unknown> = isBodySchemaMap(
+        routeOptions.bodySchema
+      )
+        ? routeOptions.bodySchema
+        : { "application/json": routeOptions.bodySchema };
+      const bodyContent = Object.fromEntries(
+        Object.entries(bodySchemas).map(([contentType, schema]) => {
+          const jsonSchema = toJSONSchema(schema, "input");
+          return [contentType, jsonSchema ? { schema: jsonSchema } : {}];
+        })
+      );
+
+      const declaredResponses: ResponseSchemas =
+        routeOptions.responses ??
+        (routeOptions.responseSchema
+          ? { 200: routeOptions.responseSchema }
+          : {});
+      const responses: Record<string, any> = {};
+      for (const [status, schema] of Object.entries(declaredResponses)) {
+        const jsonSchema = toJSONSchema(schema, "output");
+        responses[status] = {
+          description: `${status} response`,
+          content: {
+            "application/json": jsonSchema ? { schema: jsonSchema } : {},
+          },
+        };
+      }
+      if (Object.keys(responses).length === 0) {
+        responses.default = { description: "Default response" };
+      }
+
+      const operation: Record<string, any> = {
+        ...(id ? { operationId: id } : {}),
+        ...(summary ? { summary } : {}),
+        ...(description ? { description } : {}),
+        ...(tags ? { tags: [...tags] } : {}),
+        ...(deprecated ? { deprecated } : {}),
+        parameters: [
+          ...template.params.map(({ name, pattern }) => ({
+            name,
+            in: "path",
+            required: true,
+            schema: paramsJSONSchema?.properties?.[name] ?? {
+              type: "string",
+              ...(pattern ? { pattern } : {}),
+            },
+          })),
+          ...toOpenAPIParameters(
+            "query",
+            toJSONSchema(routeOptions.querySchema, "input")
+          ),
+          ...toOpenAPIParameters(
+            "header",
+            toJSONSchema(routeOptions.headersSchema, "input")
+          ),
+          ...toOpenAPIParameters(
+            "cookie",
+            toJSONSchema(routeOptions.cookiesSchema, "input")
+          ),
+          ...toOpenAPIParameters(
+            "cookie",
+            toJSONSchema(routeOptions.signedCookiesSchema, "input")
+          ),
+        ],
+        responses,
+      };
+      if (routeOptions.files) {
+        operation.requestBody = {
+          required: true,
+          content: {
+            "multipart/form-data": {
+              schema: toMultipartJSONSchema(
+                routeOptions.files,
+                bodyContent["application/json"]?.schema
+              ),
+            },
+          },
+        };
+      } else if (routeOptions.bodySchema) {
+        operation.requestBody = { required: true, content: bodyContent };
+      }
+      return operation;
+    };
+
+    // operationIds must be unique: only the first expansion (without the
+    // optional segments) gets it, suffixed with the method for `all` routes
+    for (const [index, template] of toOpenAPIPaths(parsePath(path)).entries()) {
+      const pathItem = (paths[template.path] ??= {});
+      for (const operationMethod of method === "all"
+        ? OPENAPI_METHODS
+        : [method]) {
+        // The first route registered for a method wins, as it does in Express
+        if (pathItem[operationMethod]) continue;
+        pathItem[operationMethod] = createOperation(
+          template,
+          operationId && index === 0
+            ? method === "all"
+              ? `${operationId}_${operationMethod}`
+              : operationId
+            : undefined
+        );
+      }
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+  };
+}
+
+/**
+ * Options shared by every route registered through `router.route(path)`.
+ * Each route can still pass its own options, which override these.
+ *
+ * @template Path - The path of the routes, used to check the params schema keys.
+ * @template ParamsSchema - Schema for route parameter validation.
+ * @template Middleware - Middleware that runs before every route of the builder.
+ * @property paramsSchema - Optional schema for validating and transforming the route params.
+ * @property middleware - Optional middleware that runs before every route of the builder.
+ * @property hooks - Optional lifecycle hooks run before each route's own hooks of the same stage.
+ */
+export interface RouteBuilderOptions<
+  Path extends string,
+  ParamsSchema extends AnyStandardSchema | unknown = unknown,
+  Middleware extends readonly UnvalidatedMiddleware[] = []
+> extends RouteSettings {
+  paramsSchema?: ParamsSchemaOption<Path, ParamsSchema>;
+  middleware?: Middleware;
+  hooks?: RouteHooks<Path, unknown, unknown, ParamsSchema, unknown>;
+}
+
+/**
+ * What `router.route(path)` binds for the routes of its builder: their path,
+ * the builder's params schema and the router to return to.
+ */
+interface RouteBinding<
+  Path extends string = string,
+  ParamsSchema = unknown,
+  Router = unknown
+> {
+  path: Path;
+  paramsSchema: ParamsSchema;
+  router: Router;
+}
+
+// Routers take the path of each route, builders have it bound
+type PathArgument<Binding, Path extends string> = Binding extends RouteBinding
+  ? []
+  : [path: Path];
+
+type BoundPath<Binding, Path extends string> = Binding extends RouteBinding<
+  infer BoundPath extends string
+>
+  ? BoundPath
+  : Path;
+
+// A route's own paramsSchema overrides the builder's
+type BoundParamsSchema<Binding, ParamsSchema> = Binding extends RouteBinding<
+  string,
+  infer BoundSchema
+>
+  ? unknown extends ParamsSchema
+    ? BoundSchema
+    : ParamsSchema
+  : ParamsSchema;
+
+type RouteMethodResult<
+  Binding,
+  RouterMiddlewareProps extends Record<string, any>,
+  RouterLocals extends Record<string, any>,
+  Routes extends TypedRoute
+> = Binding extends RouteBinding<
+  infer Path extends string,
+  infer ParamsSchema,
+  infer Router
+>
+  ? TypedRouteBuilder<
       Path,
-      unknown,
-      unknown,
+      ParamsSchema,
       RouterMiddlewareProps,
-      RouterLocals
+      RouterLocals,
+      Router,
+      Routes
     >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+  : TypedRouter<RouterMiddlewareProps, RouterLocals, Routes>;
+
+/**
+ * The route registration methods shared by `TypedRouter` and
+ * `TypedRouteBuilder`. Without a binding they take the path of the route
+ * and return the router; with one they use the bound path and params schema
+ * and return the builder.
+ *
+ * @template Binding - The builder's `RouteBinding`, or `undefined` for a router.
+ * @template RouterMiddlewareProps - Request props added by the router's middleware.
+ * @template RouterLocals - `res.locals` props added by the router's middleware.
+ * @template Routes - The routes registered so far.
+ */
+interface RouteMethods<
+  Binding extends RouteBinding | undefined,
+  RouterMiddlewareProps extends Record<string, any>,
+  RouterLocals extends Record<string, any>,
+  Routes extends TypedRoute
+> {
+  // Method overloads for GET requests with automatic middleware type inference
+  get<Path extends string>(
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "get",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
 
   get<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     BodySchema extends AnyStandardSchema | unknown,
     QuerySchema extends AnyStandardSchema | unknown
   >(
-    path: Path,
-    options: RouteOptions<BodySchema, QuerySchema>,
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteOptions<
+        BodySchema,
+        QuerySchema,
+        ParamsSchema,
+        BoundPath<Binding, Path>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files,
+        Name,
+        BoundParamsSchema<Binding, ParamsSchema>
+      >,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "get",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Special overload for middleware type inference
   get<
     Path extends string,
-    Middleware extends readonly TypedMiddleware<any, any>[]
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    Middleware extends readonly RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[],
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { middleware: Middleware },
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<Middleware>,
-      RouterLocals & InferMiddlewareLocals<Middleware>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          Middleware,
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >;
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<Middleware>,
+        RouterLocals & InferMiddlewareLocals<Middleware>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "get",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
   // Combined overload for body/query schema + middleware
   get<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     BodySchema extends AnyStandardSchema | unknown,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: RouteOptions<BodySchema, QuerySchema> & { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
-  // Implementation
-  get(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("get", path, optionsOrHandler, handler);
-  } // Combined overload for body/query schema + middleware (most specific first)
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteOptions<
+        BodySchema,
+        QuerySchema,
+        ParamsSchema,
+        BoundPath<Binding, Path>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files,
+        Name,
+        BoundParamsSchema<Binding, ParamsSchema>
+      > & {
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "get",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
+  // Combined overload for body/query schema + middleware (most specific first)
   post<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: {
-      bodySchema: BodySchema;
-      querySchema?: QuerySchema;
-      middleware: [...M]; // Using tuple spread pattern
-    },
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        querySchema?: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "post",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Body schema only + middleware
   post<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { bodySchema: BodySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "post",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Middleware only
   post<
-    Path extends string,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
-  >(
-    path: Path,
-    options: { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
+  >(
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "post",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Body + Query schema without middleware
   post<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     BodySchema extends AnyStandardSchema | unknown,
     QuerySchema extends AnyStandardSchema | unknown
   >(
-    path: Path,
-    options: RouteOptions<BodySchema, QuerySchema>,
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteOptions<
+        BodySchema,
+        QuerySchema,
+        ParamsSchema,
+        BoundPath<Binding, Path>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files,
+        Name,
+        BoundParamsSchema<Binding, ParamsSchema>
+      >,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "post",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Just handler, no options
   post<Path extends string>(
-    path: Path,
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "post",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
 
-  post(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("post", path, optionsOrHandler, handler);
-  }
   // PUT method with all the same overloads as POST
   put<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: {
-      bodySchema: BodySchema;
-      querySchema?: QuerySchema;
-      middleware: [...M]; // Using tuple spread pattern
-    },
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        querySchema?: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "put",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   put<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { bodySchema: BodySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "put",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   put<
     Path extends string,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "put",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   put<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     BodySchema extends AnyStandardSchema | unknown,
     QuerySchema extends AnyStandardSchema | unknown
   >(
-    path: Path,
-    options: RouteOptions<BodySchema, QuerySchema>,
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteOptions<
+        BodySchema,
+        QuerySchema,
+        ParamsSchema,
+        BoundPath<Binding, Path>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files,
+        Name,
+        BoundParamsSchema<Binding, ParamsSchema>
+      >,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "put",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   put<Path extends string>(
-    path: Path,
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
-  put(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("put", path, optionsOrHandler, handler);
-  }
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "put",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
   // PATCH method with all the same overloads as POST
   patch<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: {
-      bodySchema: BodySchema;
-      querySchema?: QuerySchema;
-      middleware: [...M]; // Using tuple spread pattern
-    },
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        querySchema?: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "patch",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   patch<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { bodySchema: BodySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "patch",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   patch<
     Path extends string,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "patch",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   patch<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     BodySchema extends AnyStandardSchema | unknown,
     QuerySchema extends AnyStandardSchema | unknown
   >(
-    path: Path,
-    options: RouteOptions<BodySchema, QuerySchema>,
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteOptions<
+        BodySchema,
+        QuerySchema,
+        ParamsSchema,
+        BoundPath<Binding, Path>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files,
+        Name,
+        BoundParamsSchema<Binding, ParamsSchema>
+      >,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "patch",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   patch<Path extends string>(
-    path: Path,
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
-  patch(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("patch", path, optionsOrHandler, handler);
-  } // DELETE method (typically no body, but can have query params and middleware)
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "patch",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
+  // DELETE method (typically no body, but can have query params and middleware)
   // Most specific first: query schema + middleware
   delete<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { querySchema: QuerySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        querySchema: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "delete",
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
-  // Query schema only
-  delete<Path extends string, QuerySchema extends AnyStandardSchema | unknown>(
-    path: Path,
-    options: { querySchema: QuerySchema },
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+  // Query and/or params schema (no middleware)
+  delete<
+    Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    QuerySchema extends AnyStandardSchema | unknown
+  >(
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        querySchema?: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "delete",
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Middleware only
   delete<
     Path extends string,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "delete",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Basic overload with no options
   delete<Path extends string>(
-    path: Path,
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
-  delete(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("delete", path, optionsOrHandler, handler);
-  } // OPTIONS method (typically no body, used for CORS preflight)
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "delete",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
+  // OPTIONS method (typically no body, used for CORS preflight)
   // Most specific first: query schema + middleware
   options<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { querySchema: QuerySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        querySchema: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "options",
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
-  // Query schema only
-  options<Path extends string, QuerySchema extends AnyStandardSchema | unknown>(
-    path: Path,
-    options: { querySchema: QuerySchema },
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+  // Query and/or params schema (no middleware)
+  options<
+    Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    QuerySchema extends AnyStandardSchema | unknown
+  >(
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        querySchema?: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "options",
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Middleware only
   options<
     Path extends string,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "options",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Basic overload with no options
   options<Path extends string>(
-    path: Path,
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
-  options(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("options", path, optionsOrHandler, handler);
-  } // HEAD method (like GET but only returns headers)
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "options",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
+  // HEAD method (like GET but only returns headers)
   // Most specific first: query schema + middleware
   head<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { querySchema: QuerySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        querySchema: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "head",
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
-  // Query schema only
-  head<Path extends string, QuerySchema extends AnyStandardSchema | unknown>(
-    path: Path,
-    options: { querySchema: QuerySchema },
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+  // Query and/or params schema (no middleware)
+  head<
+    Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    QuerySchema extends AnyStandardSchema | unknown
+  >(
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        querySchema?: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "head",
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Middleware only
   head<
     Path extends string,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "head",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Basic overload with no options
   head<Path extends string>(
-    path: Path,
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
-  head(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("head", path, optionsOrHandler, handler);
-  } // ALL method (matches all HTTP methods)
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "head",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
+  // ALL method (matches all HTTP methods)
   // Most specific first: body + query + middleware
   all<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: {
-      bodySchema: BodySchema;
-      querySchema?: QuerySchema;
-      middleware: [...M]; // Using tuple spread pattern
-    },
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        querySchema?: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "all",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Body schema + middleware (no query)
   all<
     Path extends string,
-    BodySchema extends AnyStandardSchema,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    BodySchema extends AnyStandardSchema | BodySchemaMap,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { bodySchema: BodySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        bodySchema: BodySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          BodySchema,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            BodySchema,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "all",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Query schema + middleware (no body)
   all<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     QuerySchema extends AnyStandardSchema | unknown,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { querySchema: QuerySchema; middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      QuerySchema,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        querySchema: QuerySchema;
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          QuerySchema,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            QuerySchema,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "all",
+        BoundPath<Binding, Path>,
+        unknown,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Body + query schemas (no middleware)
   all<
     Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
     BodySchema extends AnyStandardSchema | unknown,
     QuerySchema extends AnyStandardSchema | unknown
   >(
-    path: Path,
-    options: RouteOptions<BodySchema, QuerySchema>,
-    handler: SchemaRouteHandler<
-      Path,
-      BodySchema,
-      QuerySchema,
-      RouterMiddlewareProps,
-      RouterLocals
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteOptions<
+        BodySchema,
+        QuerySchema,
+        ParamsSchema,
+        BoundPath<Binding, Path>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files,
+        Name,
+        BoundParamsSchema<Binding, ParamsSchema>
+      >,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "all",
+        BoundPath<Binding, Path>,
+        BodySchema,
+        QuerySchema,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Middleware only (no schemas)
   all<
     Path extends string,
-    M extends TypedMiddleware<any, any>[] // Using array type for JS compatibility
+    ParamsSchema extends AnyStandardSchema | unknown,
+    HeadersSchema extends AnyStandardSchema | unknown,
+    CookiesSchema extends AnyStandardSchema | unknown,
+    SignedCookiesSchema extends AnyStandardSchema | unknown,
+    Responses extends ResponseSchemas | unknown,
+    Files extends FileFields,
+    Name extends string,
+    M extends RouteMiddleware<
+      Validate,
+      SchemaRequest<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Files
+      >
+    >[], // Using array type for JS compatibility
+    Validate extends ValidationOrder = "after"
   >(
-    path: Path,
-    options: { middleware: [...M] }, // Using tuple spread pattern
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
-      RouterLocals & InferMiddlewareLocals<readonly [...M]>
-    >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      options: RouteSettings & {
+        paramsSchema?: ParamsSchemaOption<
+          BoundPath<Binding, Path>,
+          ParamsSchema
+        >;
+        headersSchema?: HeadersSchema;
+        cookiesSchema?: CookiesSchema;
+        signedCookiesSchema?: SignedCookiesSchema;
+        responses?: Responses;
+        files?: Files;
+        name?: Name;
+        hooks?: RouteHooks<
+          BoundPath<Binding, Path>,
+          unknown,
+          unknown,
+          BoundParamsSchema<Binding, ParamsSchema>,
+          HeadersSchema,
+          CookiesSchema,
+          SignedCookiesSchema,
+          Files
+        >;
+        validate?: Validate;
+        middleware: MiddlewareOption<
+          [...M],
+          Validate,
+          SchemaRequest<
+            BoundPath<Binding, Path>,
+            unknown,
+            unknown,
+            RouterMiddlewareProps,
+            BoundParamsSchema<Binding, ParamsSchema>,
+            HeadersSchema,
+            CookiesSchema,
+            SignedCookiesSchema,
+            Files
+          >
+        >; // Using tuple spread pattern
+      },
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps & InferMiddlewareProps<readonly [...M]>, // Make it readonly for type inference
+        RouterLocals & InferMiddlewareLocals<readonly [...M]>,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        CookiesSchema,
+        SignedCookiesSchema,
+        Responses,
+        Files
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "all",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, ParamsSchema>,
+        HeadersSchema,
+        RouteResponses<RouterMiddlewareProps, Responses>,
+        Name
+      >
+  >;
 
   // Basic overload with no options
   all<Path extends string>(
+    ...args: [
+      ...PathArgument<Binding, Path>,
+      handler: SchemaRouteHandler<
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        RouterMiddlewareProps,
+        RouterLocals,
+        BoundParamsSchema<Binding, unknown>
+      >
+    ]
+  ): RouteMethodResult<
+    Binding,
+    RouterMiddlewareProps,
+    RouterLocals,
+    | Routes
+    | TypedRoute<
+        "all",
+        BoundPath<Binding, Path>,
+        unknown,
+        unknown,
+        BoundParamsSchema<Binding, unknown>,
+        unknown,
+        RouteResponses<RouterMiddlewareProps, unknown>
+      >
+  >;
+}
+
+/**
+ * Registers routes for several methods on one path, returned by
+ * `router.route(path)`. The methods take the same options and handlers as
+ * the router's, without the path. Call `end()` to get back to the router
+ * with the registered routes added to its type.
+ *
+ * @template Path - The path every route of the builder is registered at.
+ * @template ParamsSchema - The builder's schema for route parameter validation.
+ * @template RouterMiddlewareProps - Request props added by the router's and the builder's middleware.
+ * @template RouterLocals - `res.locals` props added by the router's and the builder's middleware.
+ * @template Router - The router `route()` was called on, without its routes.
+ * @template Routes - The router's routes plus the routes registered through the builder.
+ */
+export interface TypedRouteBuilder<
+  Path extends string,
+  ParamsSchema,
+  RouterMiddlewareProps extends Record<string, any>,
+  RouterLocals extends Record<string, any>,
+  Router,
+  Routes extends TypedRoute = never
+> extends RouteMethods<
+    RouteBinding<Path, ParamsSchema, Router>,
+    RouterMiddlewareProps,
+    RouterLocals,
+    Routes
+  > {
+  /**
+   * Finish the builder.
+   *
+   * @returns The router `route()` was called on, typed with the routes registered through the builder
+   */
+  end(): Router extends TypedRouter<infer Props, infer Locals>
+    ? TypedRouter<Props, Locals, Routes>
+    : never;
+}
+
+// The route methods are declared by RouteMethods and added to the prototype
+// in a static block below
+interface TypedRouter<
+  in out RouterMiddlewareProps extends Record<string, any> = {},
+  in out RouterLocals extends Record<string, any> = {},
+  out Routes extends TypedRoute = never
+> extends RouteMethods<
+    undefined,
+    RouterMiddlewareProps,
+    RouterLocals,
+    Routes
+  > {}
+
+// The routers a request was passed down from through use(), outermost
+// first, so routes of mounted routers run their hooks too
+const mountChains = new WeakMap<Request, TypedRouter<any, any, any>[]>();
+
+// Main typed router class
+class TypedRouter<
+  // The variances are declared so TypeScript does not have to measure them
+  // through every route method and the builder returned by route()
+  in out RouterMiddlewareProps extends Record<string, any> = {},
+  in out RouterLocals extends Record<string, any> = {},
+  out Routes extends TypedRoute = never
+> {
+  private router: express.Router;
+  // Wraps `router` so the error handling below always runs after every route,
+  // no matter when the routes are registered.
+  private root: express.Router;
+  private registry: RegistryEntry[] = [];
+  private config: RouterConfig;
+  private scope: RouterScope = { prefix: "", middleware: [], options: {} };
+  private hooks: HookRegistry = {
+    onRequest: [],
+    preValidation: [],
+    preHandler: [],
+    onResponse: [],
+    onError: [],
+  };
+  private pathMatchers = new Map<string, RegExp>();
+  // The routers this router is mounted on, so routes registered after
+  // mounting are still checked against theirs
+  private mounts: {
+    parent: TypedRouter<any, any, any>;
+    prefix: string;
+    // Index of the mount in the parent's registry
+    position: number;
+  }[] = [];
+
+  private get logger(): RouterLogger {
+    return this.config.logger ?? console;
+  }
+
+  constructor(config: RouterConfig = {}) {
+    // mergeParams lets routes see the params of the prefix they are mounted at
+    this.router = express.Router({ mergeParams: true });
+    this.root = express.Router({ mergeParams: true });
+    this.config = config;
+    if (config.autoOptions) {
+      this.root.use((req, res, next) => this.answerOptions(req, res, next));
+    }
+    this.root.use(this.router);
+    if (config.methodNotAllowed) {
+      this.root.use((req, res, next) =>
+        this.rejectUnallowedMethod(req, res, next)
+      );
+    }
+    this.root.use(
+      (error: any, req: Request, res: Response, next: NextFunction) =>
+        this.handleError(error, req, res, next)
+    );
+  }
+  /**
+   * Add typed middleware that extends the request with additional properties
+   * and/or adds properties to response.locals
+   */ /**
+   * Add typed middleware to the router.
+   * The returned router shares this router's Express router, but the
+   * middleware only runs for routes registered through the returned router
+   * (or routers derived from it), so the types always match what runs.
+   * This router is left unchanged: a `router.useMiddleware(auth);` statement
+   * whose result is not used has no effect.
+   *
+   * @template TReq - Type extensions for the request object
+   * @template TLocals - Type extensions for response.locals
+   * @param middleware - The typed middleware function
+   * @returns A new router instance with updated types
+   */
+  useMiddleware<
+    TReq extends Record<string, any> = {},
+    TLocals extends Record<string, any> = {}
+  >(
+    middleware: TypedMiddleware<TReq, TLocals> & UnvalidatedMiddleware
+  ): TypedRouter<RouterMiddlewareProps & TReq, RouterLocals & TLocals, Routes> {
+    return this.derive({
+      ...this.scope,
+      middleware: [...this.scope.middleware, middleware],
+    });
+  }
+  /**
+   * Mount another typed router under a path prefix. Its routes are served
+   * below the prefix and listed by `routes()` with their full paths, after
+   * the middleware added to this router with `useMiddleware()`.
+   *
+   * Mounted routers merge the params of the prefix into `req.params`. Pass a
+   * callback to get a child router typed with this router's middleware props
+   * and the prefix params; a router created on its own can declare them with
+   * `MountParams`, and only mounts where this router provides what it
+   * declares type-check.
+   *
+   * @param prefix - The path the child router is mounted at
+   * @param child - The typed router to mount, or a callback that adds routes to a new child router
+   * @returns This router, for chaining
+   *
+   * @example
+   * const users = createTypedRouter();
+   * users.get('/:userId', handler);
+   *
+   * const api = createTypedRouter().use('/users', users);
+   * api.routes(); // [{ method: 'get', path: '/users/:userId', ... }]
+   *
+   * @example
+   * const api = createTypedRouter()
+   *   .useMiddleware(authMiddleware)
+   *   .use('/orgs/:orgId', (org) =>
+   *     org.get('/repos/:repoId', (req, res) => {
+   *       const { orgId, repoId } = req.params; // Both typed as string
+   *       res.json({ orgId, repoId, user: req.user });
+   *     })
+   *   );
+   *
+   * @example
+   * const repos = createTypedRouter<AuthProps & MountParams<'/orgs/:orgId'>>();
+   * repos.get('/repos', (req, res) => res.json({ orgId: req.params.orgId }));
+   * api.use('/orgs/:orgId', repos);
+   */
+  use<Prefix extends string, ChildRoutes extends TypedRoute = never>(
+    prefix: Prefix,
+    build: (
+      router: TypedRouter<
+        RouterMiddlewareProps & MountParams<Prefix>,
+        RouterLocals
+      >
+    ) => TypedRouter<any, any, ChildRoutes>
+  ): TypedRouter<
+    RouterMiddlewareProps,
+    RouterLocals,
+    Routes | PrefixRoutes<Prefix, ChildRoutes>
+  >;
+  use<
+    Prefix extends string,
+    ChildProps extends Record<string, any>,
+    ChildLocals extends Record<string, any>,
+    ChildRoutes extends TypedRoute
+  >(
+    prefix: Prefix,
+    child: TypedRouter<ChildProps, ChildLocals, ChildRoutes> &
+      MountedRouterCheck<
+        RouterMiddlewareProps & MountParams<Prefix>,
+        RouterLocals,
+        ChildProps,
+        ChildLocals
+      >
+  ): TypedRouter<
+    RouterMiddlewareProps,
+    RouterLocals,
+    Routes | PrefixRoutes<Prefix, ChildRoutes>
+  >;
+  use(
+    prefix: string,
+    childOrBuild:
+      | TypedRouter<any, any, any>
+      | ((router: TypedRouter<any, any>) => TypedRouter<any, any, any>)
+  ): TypedRouter<RouterMiddlewareProps, RouterLocals, any> {
+    const child =
+      typeof childOrBuild === "function"
+        ? childOrBuild(new TypedRouter(this.config))
+        : childOrBuild;
+    this.assertUniqueRouteNames(
+      child.routes().flatMap((route) => route.name ?? [])
+    );
+    const fullPrefix = this.scope.prefix
+      ? joinPaths(this.scope.prefix, prefix)
+      : prefix;
+    this.checkRouteConflicts(
+      child.routes().map((route) => ({
+        method: route.method,
+        path: joinPaths(fullPrefix, route.path),
+      }))
+    );
+    const childRouter = child.getRouter();
+    this.router.use(
+      fullPrefix,
+      ...this.scope.middleware.map(forwardRejections),
+      (req: Request, res: Response, next: NextFunction) => {
+        const chain = mountChains.get(req) ?? [];
+        mountChains.set(req, [...chain, this]);
+        // Requests the child does not answer leave it for this router's
+        // later routes
+        childRouter(req, res, (error?: unknown) => {
+          mountChains.set(req, chain);
+          next(error);
+        });
+      }
+    );
+    this.registry.push({
+      type: "mount",
+      prefix: fullPrefix,
+      router: child,
+      middleware: this.scope.middleware.map(middlewareName),
+    });
+    child.mounts.push({
+      parent: this,
+      prefix: fullPrefix,
+      position: this.registry.length - 1,
+    });
+    return this;
+  }
+  /**
+   * Add a lifecycle hook to every route of this router, including routes
+   * registered before the hook, routes of groups and routers derived with
+   * `useMiddleware()`, and routes of routers mounted with `use()`. Router
+   * hooks run before the route's own `hooks` of the same stage, and the hooks
+   * of the routers a mounted router is mounted on run before its own.
+   *
+   * @param stage - The lifecycle stage to run the hook at
+   * @param hook - The hook function
+   * @returns This router, for chaining
+   *
+   * @example
+   * // `req.log` is declared on Express' Request type
+   * declare global {
+   *   namespace Express {
+   *     interface Request {
+   *       log: Logger;
+   *     }
+   *   }
+   * }
+   *
+   * router
+   *   .addHook('onRequest', (req) => {
+   *     req.log = logger.child({ requestId: req.get('x-request-id') });
+   *   })
+   *   .addHook('onResponse', (req, res, { statusCode, durationMs }) => {
+   *     metrics.observe(req.route.path, statusCode, durationMs);
+   *   })
+   *   .addHook('onError', (error, req, res) => {
+   *     if (error instanceof PaymentError) {
+   *       res.status(402).json({ error: error.message }); // Replaces the response
+   *     }
+   *   });
+   */
+  addHook<Stage extends HookStage>(
+    stage: Stage,
+    hook: RouterHooks[Stage]
+  ): this {
+    this.hooks[stage].push(hook as any);
+    return this;
+  }
+  /**
+   * Register a group of routes that share a path prefix, middleware and
+   * options. The group's middleware and its types only apply to routes
+   * registered on the router passed to the callback; the group's options
+   * are defaults that each route can override.
+   *
+   * @param options - The prefix, middleware and shared route options of the group
+   * @param build - Registers the group's routes; return the router to keep their types
+   * @returns This router, for chaining
+   *
+   * @example
+   * router.group(
+   *   {
+   *     prefix: '/admin',
+   *     middleware: [authMiddleware] as const,
+   *     meta: { tags: ['admin'] },
+   *     validationErrorFormatter: adminFormatter,
+   *   },
+   *   (admin) => {
+   *     admin.get('/users', (req, res) => {
+   *       res.json({ requestedBy: req.user }); // req.user from authMiddleware
+   *     });
+   *     admin.delete('/users/:id', handler);
+   *   }
+   * );
+   * router.get('/health', handler); // No authMiddleware here
+   */
+  group<
+    Prefix extends string = "",
+    Middleware extends readonly UnvalidatedMiddleware[] = [],
+    QuerySchema extends AnyStandardSchema | unknown = unknown,
+    Responses extends ResponseSchemas | unknown = unknown,
+    GroupRoutes extends TypedRoute = never
+  >(
+    options: RouteGroupOptions<Prefix, Middleware, QuerySchema, Responses>,
+    build: (
+      router: TypedRouter<
+        GroupResponses<RouterMiddlewareProps, Responses> &
+          InferMiddlewareProps<Middleware> &
+          MountParams<Prefix> &
+          GroupQuery<QuerySchema>,
+        RouterLocals & InferMiddlewareLocals<Middleware>
+      >
+    ) => TypedRouter<any, any, GroupRoutes> | void
+  ): TypedRouter<
+    RouterMiddlewareProps,
+    RouterLocals,
+    Routes | PrefixRoutes<Prefix, GroupRoutes>
+  > {
+    const { prefix, middleware = [], ...shared } = options;
+    build(
+      this.derive({
+        prefix: prefix
+          ? joinPaths(this.scope.prefix, prefix)
+          : this.scope.prefix,
+        middleware: [...this.scope.middleware, ...middleware],
+        options: mergeRouteOptions(this.scope.options, shared),
+      })
+    );
+    return this;
+  }
+  /**
+   * Register routes for several methods on one path without repeating it,
+   * like Express's `router.route()`. The path params are inferred once, and
+   * the shared options, such as `middleware` and `paramsSchema`, apply to
+   * every route of the builder.
+   *
+   * @param path - The path every route of the builder is registered at
+   * @param options - Options shared by the builder's routes
+   * @returns A builder with `get`, `post`, `put`, `patch`, `delete`, `head`, `options` and `all` methods
+   *
+   * @example
+   * router
+   *   .route('/posts/:postId', {
+   *     paramsSchema: z.object({ postId: z.coerce.number() }),
+   *     middleware: [authMiddleware] as const,
+   *   })
+   *   .get((req, res) => res.json(getPost(req.params.postId))) // postId: number
+   *   .put({ bodySchema: postSchema }, (req, res) => {
+   *     res.json(updatePost(req.params.postId, req.body, req.user));
+   *   })
+   *   .delete((req, res) => res.status(204).end())
+   *   .end();
+   */
+  route<
+    Path extends string,
+    ParamsSchema extends AnyStandardSchema | unknown = unknown,
+    Middleware extends readonly UnvalidatedMiddleware[] = []
+  >(
     path: Path,
-    handler: SchemaRouteHandler<
-      Path,
-      unknown,
-      unknown,
-      RouterMiddlewareProps,
-      RouterLocals
+    options: RouteBuilderOptions<Path, ParamsSchema, Middleware> = {}
+  ): TypedRouteBuilder<
+    Path,
+    ParamsSchema,
+    RouterMiddlewareProps & InferMiddlewareProps<Middleware>,
+    RouterLocals & InferMiddlewareLocals<Middleware>,
+    TypedRouter<RouterMiddlewareProps, RouterLocals>,
+    Routes
+  > {
+    const { middleware = [], ...shared } = options;
+    const router = this.derive({
+      prefix: joinPaths(this.scope.prefix, path),
+      middleware: [...this.scope.middleware, ...middleware],
+      options: mergeRouteOptions(this.scope.options, shared),
+    });
+    const builder: any = { end: () => this };
+    for (const method of ROUTE_METHODS) {
+      builder[method] = (optionsOrHandler: any, handler?: any) => {
+        router.registerRoute(method, "", optionsOrHandler, handler);
+        return builder;
+      };
+    }
+    return builder;
+  }
+  // Derived routers share the Express router, registry and config of the
+  // router they come from and only differ in their scope.
+  private derive(scope: RouterScope): TypedRouter<any, any> {
+    return Object.assign(Object.create(TypedRouter.prototype), this, {
+      scope,
+    });
+  }
+  /**
+   * List every route registered on this router, including the routes of
+   * mounted typed routers with their full paths, in registration order.
+   *
+   * @returns The registered routes
+   *
+   * @example
+   * for (const route of router.routes()) {
+   *   console.log(route.method.toUpperCase(), route.path, route.middleware);
+   * }
+   */
+  routes(): RouteRecord[] {
+    return this.registry.flatMap((entry) =>
+      entry.type === "route"
+        ? [entry.route]
+        : entry.router.routes().map((route) => ({
+            ...route,
+            path: joinPaths(entry.prefix, route.path),
+            middleware: [...entry.middleware, ...route.middleware],
+          }))
+    );
+  }
+  /**
+   * Build the URL of a named route from its params, e.g. for redirects,
+   * `Location` headers and links in emails. The path is relative to where
+   * this router is mounted. Optional segments are left out when their params
+   * are missing, and repeating params and wildcards take an array of
+   * segments.
+   *
+   * @param name - The `name` the route was registered with
+   * @param params - The route's path params, typed from its path
+   * @param options - Optional query string values
+   * @returns The interpolated path and query string
+   *
+   * @example
+   * router.get('/users/:userId{/:tab}', { name: 'user.detail' }, handler);
+   *
+   * router.url('user.detail', { userId: '42' }); // '/users/42'
+   * router.url('user.detail', { userId: '42', tab: 'posts' }, { query: { page: 2 } });
+   * // '/users/42/posts?page=2'
+   */
+  url<Name extends NamedRoutes<Routes>["name"]>(
+    name: Name,
+    ...[params, options]: RouteUrlArgs<
+      Extract<NamedRoutes<Routes>, { name: Name }>["path"]
     >
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals>;
-  all(
-    path: string,
-    optionsOrHandler: any,
-    handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-    return this.registerRoute("all", path, optionsOrHandler, handler);
+  ): string {
+    const route = this.routes().find((route) => route.name === name);
+    if (!route) {
+      throw new Error(`No route named "${name}"`);
+    }
+    return (
+      buildPath(route.path, (params ?? {}) as Record<string, unknown>) +
+      buildQueryString(options?.query)
+    );
+  }
+  // Route names identify a single route across the router, the routers
+  // mounted on it and the routers it is mounted on
+  private assertUniqueRouteNames(names: string[]) {
+    const taken = new Set(this.routes().flatMap((route) => route.name ?? []));
+    for (const name of names) {
+      if (taken.has(name)) {
+        throw new Error(`Duplicate route name "${name}"`);
+      }
+      taken.add(name);
+    }
+    for (const { parent } of this.mounts) {
+      parent.assertUniqueRouteNames(names);
+    }
+  }
+  // The registered routes the conflict check compares new routes with,
+  // optionally only those registered before a registry position
+  private conflictCandidates(end = this.registry.length): ConflictCandidate[] {
+    return this.registry.slice(0, end).flatMap((entry) =>
+      entry.type === "route"
+        ? [
+            {
+              method: entry.route.method,
+              path: entry.route.path,
+              passThrough: entry.passThrough,
+            },
+          ]
+        : entry.router.conflictCandidates().map((route) => ({
+            ...route,
+            path: joinPaths(entry.prefix, route.path),
+          }))
+    );
+  }
+  // Reports routes made unreachable by earlier ones, as configured. Routes
+  // of a mounted router are also checked against the routes registered on
+  // the routers above it before the mount, as Express runs those first.
+  private checkRouteConflicts(
+    routes: Pick<RouteRecord, "method" | "path">[],
+    end = this.registry.length
+  ) {
+    const mode = this.config.conflicts ?? "off";
+    if (mode !== "off") {
+      const registered = this.conflictCandidates(end);
+      for (const { method, path } of routes) {
+        const conflict = findRouteConflict(registered, method, path);
+        if (conflict && mode === "error") {
+          throw new Error(conflict);
+        }
+        if (conflict) {
+          this.logger.warn(conflict);
+        }
+      }
+    }
+    for (const { parent, prefix, position } of this.mounts) {
+      parent.checkRouteConflicts(
+        routes.map((route) => ({
+          ...route,
+          path: joinPaths(prefix, route.path),
+        })),
+        position
+      );
+    }
+  }
+  /**
+   * Get the underlying Express router
+   */
+  getRouter(): express.Router {
+    return this.root;
+  }
+  /**
+   * Generate an OpenAPI 3.1 document describing every route registered on
+   * this router, including its params, query, headers, cookies, body and
+   * declared responses.
+   *
+   * Schemas are turned into JSON Schema by `options.schemaConverter`. Without
+   * one, schemas implementing the Standard JSON Schema extension are converted
+   * and all others are left unspecified.
+   *
+   * @param options - The document `info`, `servers` and schema converter
+   * @returns The OpenAPI document
+   *
+   * @example
+   * import { z } from 'zod';
+   *
+   * const document = router.toOpenAPI({
+   *   info: { title: 'Users API', version: '1.0.0' },
+   *   servers: [{ url: 'https://api.example.com' }],
+   *   schemaConverter: (schema, { io }) => z.toJSONSchema(schema as z.ZodType, { io }),
+   * });
+   */
+  toOpenAPI(options: OpenAPIOptions): OpenAPIDocument {
+    return buildOpenAPIDocument(this.routes(), options);
+  }
+  /**
+   * Get the response schemas declared with the `responses` option of a route,
+   * e.g. for generating documentation.
+   *
+   * @param method - The HTTP method the route was registered with
+   * @param path - The path the route was registered with
+   * @returns The declared response schemas keyed by status code, if any
+   */
+  getResponseSchemas(
+    method: HttpMethod,
+    path: string
+  ): ResponseSchemas | undefined {
+    return this.routes().find(
+      (route) => route.method === method && route.path === path
+    )?.schemas.responses;
+  }
+  // The route registration methods declared by RouteMethods
+  static {
+    for (const method of ROUTE_METHODS) {
+      (TypedRouter.prototype as any)[method] = function (
+        this: TypedRouter,
+        path: string,
+        optionsOrHandler: any,
+        handler?: any
+      ) {
+        return this.registerRoute(method, path, optionsOrHandler, handler);
+      };
+    }
   }
   // Helper method to register routes
   private registerRoute(
@@ -1321,102 +6043,815 @@ class TypedRouter<
     path: string,
     optionsOrHandler: any,
     handler?: any
-  ): TypedRouter<RouterMiddlewareProps, RouterLocals> {
+  ): TypedRouter<RouterMiddlewareProps, RouterLocals, any> {
     const middlewares: any[] = [];
+    const routeHandler =
+      typeof optionsOrHandler === "object" ? handler : optionsOrHandler;
+    const options = mergeRouteOptions(
+      this.scope.options,
+      typeof optionsOrHandler === "object" ? optionsOrHandler : {}
+    );
+    const fullPath = this.scope.prefix
+      ? joinPaths(this.scope.prefix, path)
+      : path;
+    if (options.name !== undefined) {
+      this.assertUniqueRouteNames([options.name]);
+    }
+    this.checkRouteConflicts([{ method, path: fullPath }]);
 
-    if (typeof optionsOrHandler === "object") {
-      const options = optionsOrHandler as RouteOptions<any, any>;
-
-      // Add per-route middleware first
-      if (options.middleware) {
-        middlewares.push(...options.middleware);
-      }
+    // Lifecycle hooks are looked up per request so that router hooks added
+    // after the route still apply, and a router mounted on several routers
+    // runs the hooks of those the request came through
+    const routeHooks = (stage: HookStage, req: Request): any[] => [
+      ...(mountChains.get(req) ?? []).flatMap(
+        (router): any[] => router.hooks[stage]
+      ),
+      ...this.hooks[stage],
+      ...toHookList(options.hooks?.[stage] as any),
+    ];
+    middlewares.push(this.createLifecycleMiddleware(routeHooks));
 
-      // Add schema validation middleware
-      if (options.bodySchema) {
-        middlewares.push(
-          this.createBodyValidationMiddleware(options.bodySchema)
-        );
-      }
-      if (options.querySchema) {
-        middlewares.push(
-          this.createQueryValidationMiddleware(options.querySchema)
-        );
-      }
+    // Response validation wraps res.json before anything can respond
+    const responseValidation = this.resolveResponseValidation(
+      options.responseValidation
+    );
+    if (
+      responseValidation.mode !== "off" &&
+      (options.responseSchema || options.responses)
+    ) {
+      middlewares.push(
+        this.createResponseValidationMiddleware(
+          options.responseSchema,
+          options.responses,
+          responseValidation
+        )
+      );
+    }
 
-      // Add the main handler
-      middlewares.push(handler);
-    } else {
-      // Direct handler without options
-      middlewares.push(optionsOrHandler);
+    // Add schema validation middleware
+    const validators: any[] = [];
+    const errorHandling: ValidationErrorHandling = {
+      formatter:
+        options.validationErrorFormatter ??
+        this.config.validationErrorFormatter ??
+        (this.config.problemDetails
+          ? problemDetailsFormatter
+          : defaultValidationErrorFormatter),
+      forward:
+        options.forwardValidationErrors ??
+        this.config.forwardValidationErrors ??
+        false,
+    };
+    if (options.paramsSchema) {
+      validators.push(
+        this.createParamsValidationMiddleware(
+          options.paramsSchema,
+          errorHandling
+        )
+      );
+    }
+    if (options.headersSchema) {
+      validators.push(
+        this.createHeadersValidationMiddleware(
+          options.headersSchema,
+          errorHandling
+        )
+      );
+    }
+    if (options.cookiesSchema) {
+      validators.push(
+        this.createCookiesValidationMiddleware(
+          "cookies",
+          options.cookiesSchema,
+          errorHandling
+        )
+      );
+    }
+    if (options.signedCookiesSchema) {
+      validators.push(
+        this.createCookiesValidationMiddleware(
+          "signedCookies",
+          options.signedCookiesSchema,
+          errorHandling
+        )
+      );
     }
+    if (options.files) {
+      validators.push(
+        this.createFilesMiddleware(
+          options.files,
+          options.fileStorage ?? this.config.fileStorage ?? memoryStorage(),
+          errorHandling
+        )
+      );
+    }
+    if (options.bodySchema) {
+      validators.push(
+        this.createBodyValidationMiddleware(options.bodySchema, errorHandling)
+      );
+    }
+    if (options.querySchema) {
+      validators.push(
+        this.createQueryValidationMiddleware(
+          options.querySchema,
+          errorHandling,
+          options.coerceQuery ?? this.config.coerceQuery
+        )
+      );
+    }
+
+    // Router and group middleware run first; the route's own middleware runs
+    // before validation unless the route asks to validate first
+    const routeMiddleware = (options.middleware ?? []).map(forwardRejections);
+    validators.unshift(
+      this.createHookMiddleware((req) => routeHooks("preValidation", req))
+    );
+    middlewares.push(
+      ...this.scope.middleware.map(forwardRejections),
+      ...((options.validate ?? this.config.validate) === "before"
+        ? [...validators, ...routeMiddleware]
+        : [...routeMiddleware, ...validators])
+    );
+
+    // Add the main handler
+    middlewares.push(
+      this.createHookMiddleware((req) => routeHooks("preHandler", req)),
+      forwardRejections(routeHandler),
+      this.createErrorHookMiddleware((req) => routeHooks("onError", req))
+    );
 
     // Register with Express router
-    (this.router as any)[method](path, ...middlewares);
+    (this.router as any)[method](fullPath, ...middlewares);
+    this.registry.push({
+      type: "route",
+      passThrough: routeHandler.length >= 3,
+      route: {
+        method,
+        path: fullPath,
+        name: options.name,
+        schemas: {
+          params: options.paramsSchema,
+          query: options.querySchema,
+          body: options.bodySchema,
+          headers: options.headersSchema,
+          cookies: options.cookiesSchema,
+          signedCookies: options.signedCookiesSchema,
+          response: options.responseSchema,
+          responses: options.responses,
+        },
+        middleware: [
+          ...this.scope.middleware.map(middlewareName),
+          ...(options.middleware ?? []).map(middlewareName),
+        ],
+        meta: options.meta ?? {},
+        options,
+      },
+    });
 
     return this;
   }
-  private createBodyValidationMiddleware(schema: any) {
+  private createBodyValidationMiddleware(
+    schema: any,
+    errorHandling: ValidationErrorHandling
+  ) {
+    const validate = (schema: any) =>
+      this.createValidationMiddleware(
+        "body",
+        schema,
+        errorHandling,
+        (req) => req.body,
+        (req, value) => {
+          req.body = value;
+        }
+      );
+    if (!isBodySchemaMap(schema)) {
+      return validate(schema);
+    }
+
+    // With a content-type map the body is parsed here, unless a parser
+    // mounted earlier has already consumed it
+    const handlers = Object.entries(schema).map(
+      ([contentType, typeSchema]) => ({
+        contentType,
+        parse: createBodyParser(contentType),
+        validate: validate(typeSchema),
+      })
+    );
+    return (req: Request, res: Response, next: NextFunction) => {
+      const handler = handlers.find(({ contentType }) => req.is(contentType));
+      if (!handler) {
+        next(
+          new HttpError(
+            415,
+            `Unsupported content type ${
+              req.get("content-type") ?? "(none)"
+            }; expected ${Object.keys(schema).join(", ")}`
+          )
+        );
+        return;
+      }
+      if (req.readableEnded) {
+        handler.validate(req, res, next);
+        return;
+      }
+      handler.parse(req, res, (error?: any) => {
+        if (error) {
+          // Malformed or oversized bodies become HttpErrors like the 415
+          next(
+            error.expose && typeof error.status === "number"
+              ? new HttpError(error.status, error.message, { cause: error })
+              : error
+          );
+          return;
+        }
+        handler.validate(req, res, next);
+      });
+    };
+  }
+  private createQueryValidationMiddleware(
+    schema: any,
+    errorHandling: ValidationErrorHandling,
+    coercion: boolean | QueryCoercionOptions = false
+  ) {
+    const options =
+      coercion === false
+        ? undefined
+        : {
+            booleans: true,
+            numbers: true,
+            commaSeparated: true,
+            nested: true,
+            ...(coercion === true ? {} : coercion),
+          };
+    return this.createValidationMiddleware(
+      "query",
+      schema,
+      errorHandling,
+      (req) =>
+        options
+          ? coerceQuery(req.query as Record<string, unknown>, options)
+          : req.query,
+      (req, value) => {
+        // Use Object.defineProperty to properly set the read-only query property
+        Object.defineProperty(req, "query", {
+          value,
+          writable: false,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    );
+  }
+  private createParamsValidationMiddleware(
+    schema: any,
+    errorHandling: ValidationErrorHandling
+  ) {
+    return this.createValidationMiddleware(
+      "params",
+      schema,
+      errorHandling,
+      (req) => req.params,
+      (req, value) => {
+        // Express keeps the same params object for every handler of a route,
+        // so transformed values (e.g. numeric ids) reach the route handler.
+        // Params merged from a mount prefix are not part of the schema.
+        req.params = { ...req.params, ...value };
+      }
+    );
+  }
+  private createHeadersValidationMiddleware(
+    schema: any,
+    errorHandling: ValidationErrorHandling
+  ) {
+    return this.createValidationMiddleware(
+      "headers",
+      schema,
+      errorHandling,
+      (req) => createCaseInsensitiveHeaders(req.headers),
+      (req, value) => {
+        (req as any).validatedHeaders = value;
+      }
+    );
+  }
+  private createCookiesValidationMiddleware(
+    property: "cookies" | "signedCookies",
+    schema: any,
+    errorHandling: ValidationErrorHandling
+  ) {
+    const message = `${property}Schema requires a cookie parser (e.g. cookie-parser${
+      property === "signedCookies" ? " with a secret" : ""
+    }) to be mounted before this router`;
+    let reported = false;
+    return this.createValidationMiddleware(
+      property,
+      schema,
+      errorHandling,
+      (req) => {
+        // Express does not parse cookies itself; without a parser the
+        // property is missing and every request would fail validation.
+        // cookie-parser sets req.signedCookies even without a secret, but
+        // only verifies signatures (and sets req.secret) with one.
+        const parsed =
+          property === "cookies" ||
+          (req as Request & { secret?: string }).secret !== undefined;
+        if (req[property] === undefined || !parsed) {
+          // A setup mistake, not a bad request: report it once
+          if (!reported) {
+            reported = true;
+            this.logger.error(message);
+          }
+          throw new Error(message);
+        }
+        return req[property];
+      },
+      (req, value) => {
+        req[property] = value;
+      }
+    );
+  }
+  // Runs the onRequest hooks and schedules the onResponse hooks
+  private createLifecycleMiddleware(
+    hooks: (stage: HookStage, req: Request) => any[]
+  ) {
+    const onRequest = this.createHookMiddleware((req) =>
+      hooks("onRequest", req)
+    );
+    return (req: Request, res: Response, next: NextFunction) => {
+      const start = Date.now();
+      res.once("finish", () => {
+        const info: ResponseInfo = {
+          statusCode: res.statusCode,
+          durationMs: Date.now() - start,
+        };
+        for (const hook of hooks("onResponse", req)) {
+          // The response is gone, so a failing hook can only be reported
+          Promise.resolve()
+            .then(() => hook(req, res, info))
+            .catch((error) =>
+              this.logger.error("onResponse hook failed", error)
+            );
+        }
+      });
+      onRequest(req, res, next);
+    };
+  }
+  // Runs hooks in order until one of them responds or fails
+  private createHookMiddleware(hooks: (req: Request) => any[]) {
     return async (req: Request, res: Response, next: NextFunction) => {
       try {
-        const result = safeParseSchema(schema, req.body) as any;
-        const resolved =
-          result && typeof (result as Promise<any>).then === "function"
-            ? await result
-            : result;
+        for (const hook of hooks(req)) {
+          await hook(req, res);
+          if (res.headersSent) return;
+        }
+      } catch (error) {
+        next(error);
+        return;
+      }
+      next();
+    };
+  }
+  // Gives onError hooks a chance to respond before the error moves on
+  private createErrorHookMiddleware(hooks: (req: Request) => any[]) {
+    return async (
+      error: unknown,
+      req: Request,
+      res: Response,
+      next: NextFunction
+    ) => {
+      try {
+        for (const hook of hooks(req)) {
+          await hook(error, req, res);
+          if (res.headersSent) return;
+        }
+      } catch (hookError) {
+        next(hookError);
+        return;
+      }
+      next(error);
+    };
+  }
+  // Methods of the registered routes whose path matches a request path
+  private matchingMethods(path: string): Set<HttpMethod> {
+    const methods = new Set<HttpMethod>();
+    for (const route of this.routes()) {
+      let matcher = this.pathMatchers.get(route.path);
+      if (!matcher) {
+        matcher = pathMatcher(route.path);
+        this.pathMatchers.set(route.path, matcher);
+      }
+      if (matcher.test(path)) {
+        methods.add(route.method);
+      }
+    }
+    return methods;
+  }
+  // The Allow header for a path's methods; GET routes also answer HEAD
+  private allowHeader(methods: Set<HttpMethod>): string {
+    return ALLOW_METHODS.filter(
+      (method) =>
+        methods.has(method) ||
+        (method === "head" && methods.has("get")) ||
+        (method === "options" && this.config.autoOptions)
+    )
+      .map((method) => method.toUpperCase())
+      .join(", ");
+  }
+  // Answers OPTIONS for paths without an `options` (or `all`) route
+  private answerOptions(req: Request, res: Response, next: NextFunction) {
+    if (req.method !== "OPTIONS") {
+      next();
+      return;
+    }
+    const methods = this.matchingMethods(req.path);
+    if (!methods.size || methods.has("options") || methods.has("all")) {
+      next();
+      return;
+    }
+    res.set("Allow", this.allowHeader(methods)).status(204).end();
+  }
+  // Requests no route answered: a 405 when the path is registered for other
+  // methods only, otherwise on to a 404
+  private rejectUnallowedMethod(
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ) {
+    const methods = this.matchingMethods(req.path);
+    const method = req.method.toLowerCase() as HttpMethod;
+    if (
+      !methods.size ||
+      methods.has("all") ||
+      methods.has(method) ||
+      (method === "head" && methods.has("get"))
+    ) {
+      next();
+      return;
+    }
+    next(
+      new HttpError(
+        405,
+        `${req.method} is not allowed for ${req.baseUrl}${req.path}`,
+        {
+          headers: { Allow: this.allowHeader(methods) },
+        }
+      )
+    );
+  }
+  // HttpErrors become responses; everything else goes to the configured
+  // errorHandler, or on to Express.
+  private handleError(
+    error: any,
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    if (error instanceof HttpError && !res.headersSent) {
+      res.status(error.status).set(error.headers);
+      if (this.config.problemDetails) {
+        res
+          .type(PROBLEM_JSON_CONTENT_TYPE)
+          .json(error.toProblemDetails(req.originalUrl));
+      } else {
+        res.json({ ...error.extensions, error: error.message });
+      }
+      return;
+    }
+    if (this.config.errorHandler) {
+      this.config.errorHandler(error, req, res, next);
+      return;
+    }
+    next(error);
+  }
+  // Route-level settings override the router-wide ones field by field
+  private resolveResponseValidation(
+    override: RouteSettings["responseValidation"]
+  ): ResponseValidationOptions {
+    const normalize = (
+      value: RouteSettings["responseValidation"]
+    ): Partial<ResponseValidationOptions> =>
+      typeof value === "string" ? { mode: value } : value ?? {};
+    return {
+      mode: "off",
+      ...normalize(this.config.responseValidation),
+      ...normalize(override),
+    };
+  }
+  private createResponseValidationMiddleware(
+    responseSchema: AnyStandardSchema | undefined,
+    responses: ResponseSchemas | undefined,
+    options: ResponseValidationOptions
+  ) {
+    const { mode, sampleRate = 1 } = options;
+    const logger =
+      options.logger ??
+      ((report: ResponseValidationReport) =>
+        this.logger.warn(
+          `Response validation failed for ${report.method} ${report.path} (${report.statusCode})`,
+          report.issues
+        ));
+
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (sampleRate < 1 && Math.random() >= sampleRate) {
+        next();
+        return;
+      }
+
+      // res.send() delegates objects to res.json(), so wrapping json covers both
+      const json = res.json.bind(res);
+      const send = (resolved: any, body: unknown) => {
         if (resolved && "issues" in resolved && resolved.issues) {
-          // Validation issues
-          res.status(400).json({
-            error: "Validation failed",
-            details: resolved.errors || resolved.issues,
+          logger({
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+            issues: resolved.issues,
           });
+          if (mode === "reject") {
+            // The issues describe the response contract, so they are only
+            // logged and the client gets a generic error
+            res.status(500);
+            if (this.config.problemDetails) {
+              res.type(PROBLEM_JSON_CONTENT_TYPE);
+              return json(
+                new HttpError(
+                  500,
+                  "Response validation failed"
+                ).toProblemDetails(req.originalUrl)
+              );
+            }
+            return json({ error: "Response validation failed" });
+          }
+          return json(body);
+        }
+        if (mode === "strip") {
+          return json(
+            resolved && "value" in resolved ? resolved.value : resolved
+          );
+        }
+        return json(body);
+      };
+
+      res.json = (body?: unknown) => {
+        // responseSchema describes successful payloads; error bodies, like
+        // the router's own 400/404/405/415 responses, only go through the
+        // schema declared for their status code
+        const status = res.statusCode;
+        const schema =
+          (status >= 200 && status < 300 ? responseSchema : undefined) ??
+          responses?.[status];
+        if (!schema) {
+          return json(body);
+        }
+        const result = safeParseSchema(schema, body) as any;
+        if (result && typeof (result as Promise<any>).then === "function") {
+          (result as Promise<any>).then(
+            (resolved) => send(resolved, body),
+            (error) => next(error)
+          );
+          return res;
+        }
+        return send(result, body);
+      };
+      next();
+    };
+  }
+  // Either responds with the formatted validation error or forwards it
+  private createValidationRejection(
+    source: ValidationSource,
+    errorHandling: ValidationErrorHandling
+  ) {
+    return (
+      req: Request,
+      res: Response,
+      next: NextFunction,
+      input: unknown,
+      issues: ReadonlyArray<StandardSchemaV1.Issue>
+    ) => {
+      if (errorHandling.forward) {
+        next(new RequestValidationError(source, input, issues));
+        return;
+      }
+      const { status, body, headers } = errorHandling.formatter(
+        normalizeIssues(issues),
+        { source, req }
+      );
+      if (headers) {
+        res.set(headers);
+      }
+      res.status(status).json(body);
+    };
+  }
+  // Parses multipart/form-data: files go through the storage into req.files
+  // and the other fields become req.body for bodySchema validation. Declared
+  // limits are checked while streaming; a rejected request has its stored
+  // files removed.
+  private createFilesMiddleware(
+    files: FileFields,
+    storage: FileStorage,
+    errorHandling: ValidationErrorHandling
+  ) {
+    const reject = this.createValidationRejection("files", errorHandling);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+      const issues: StandardSchemaV1.Issue[] = [];
+      const received: UploadedFile[] = [];
+      const pending: Promise<void>[] = [];
+      const counts: Record<string, number> = {};
+      const fields: Record<string, unknown> = {};
+
+      const finish = () => {
+        for (const [field, options] of Object.entries(files)) {
+          if (options.required && !counts[field]) {
+            issues.push({ message: "File is required", path: [field] });
+          }
+        }
+        if (issues.length) {
+          cleanup().then(
+            () => reject(req, res, next, received, issues),
+            (error) => next(error)
+          );
           return;
         }
-        req.body = resolved && "value" in resolved ? resolved.value : resolved;
+        // Files of requests that do not reach the handler (a later
+        // validator rejects them, an error is passed to next() or the client
+        // goes away) or that end in an error response are not kept
+        res.once("close", () => {
+          if (res.writableFinished && res.statusCode < 400) return;
+          cleanup().catch((error) =>
+            this.logger.error("Removing uploaded files failed", error)
+          );
+        });
+        (req as any).files = Object.fromEntries(
+          Object.entries(files).map(([field, options]) => {
+            const uploads = received.filter((file) => file.fieldName === field);
+            return [
+              field,
+              options.maxCount === undefined ? uploads[0] : uploads,
+            ];
+          })
+        );
         next();
+      };
+      const cleanup = () =>
+        Promise.all(received.map((file) => storage.removeFile?.(file)));
+      let failed = false;
+      const fail = (error: unknown) => {
+        if (failed) return;
+        failed = true;
+        req.unpipe(parser);
+        req.resume();
+        cleanup().then(
+          () => next(error),
+          () => next(error)
+        );
+      };
+
+      if (!req.is("multipart/form-data")) {
+        finish();
+        return;
+      }
+
+      let parser: ReturnType<typeof busboy>;
+      try {
+        parser = busboy({
+          headers: req.headers,
+          limits: {
+            ...MULTIPART_LIMITS,
+            files: Object.values(files).reduce(
+              (total, options) => total + (options.maxCount ?? 1),
+              0
+            ),
+          },
+        });
       } catch (error) {
-        if (isSchemaError(error)) {
-          res.status(400).json({
-            error: "Validation failed",
-            details: (error as any).errors || (error as any).issues,
+        next(new HttpError(400, (error as Error).message));
+        return;
+      }
+      parser.on("field", (name, value, info) => {
+        if (info.valueTruncated) {
+          issues.push({
+            message: `Field exceeds ${MULTIPART_LIMITS.fieldSize} bytes`,
+            path: [name],
           });
-        } else {
-          next(error);
+          return;
         }
-      }
+        const existing = fields[name];
+        fields[name] =
+          existing === undefined
+            ? value
+            : ([] as unknown[]).concat(existing, value);
+      });
+      parser.on("file", (field, stream, info) => {
+        const options = files[field];
+        const skip = (message: string) => {
+          issues.push({ message, path: [field] });
+          stream.resume();
+        };
+        if (!options) {
+          skip("Unexpected file field");
+          return;
+        }
+        counts[field] = (counts[field] ?? 0) + 1;
+        if (counts[field] > (options.maxCount ?? 1)) {
+          skip(`Expected at most ${options.maxCount ?? 1} file(s)`);
+          return;
+        }
+        if (
+          options.mimeTypes &&
+          !matchesMimeType(info.mimeType, options.mimeTypes)
+        ) {
+          skip(`Unsupported file type ${info.mimeType}`);
+          return;
+        }
+
+        const file: UploadedFile = {
+          fieldName: field,
+          originalName: info.filename,
+          mimeType: info.mimeType,
+          encoding: info.encoding,
+          size: 0,
+        };
+        const maxSize = options.maxSize ?? DEFAULT_MAX_FILE_SIZE;
+        let tooLarge = false;
+        const counter = new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            file.size += chunk.length;
+            if (file.size > maxSize) {
+              tooLarge = true;
+              callback(new Error("File too large"));
+              return;
+            }
+            callback(null, chunk);
+          },
+        });
+        // Keep draining the part so parsing continues after a rejection
+        counter.once("error", () => stream.resume());
+        stream.pipe(counter);
+        pending.push(
+          storage.handleFile(counter, file).then(
+            (stored) => {
+              received.push(Object.assign(file, stored));
+            },
+            (error) => {
+              if (!tooLarge) throw error;
+              issues.push({
+                message: `File exceeds ${maxSize} bytes`,
+                path: [field],
+              });
+            }
+          )
+        );
+      });
+      parser.once("filesLimit", () => {
+        issues.push({ message: "Too many files", path: [] });
+      });
+      parser.once("fieldsLimit", () => {
+        issues.push({
+          message: `Expected at most ${MULTIPART_LIMITS.fields} fields`,
+          path: [],
+        });
+      });
+      parser.once("error", fail);
+      parser.once("close", () => {
+        Promise.all(pending).then(() => {
+          if (failed) return;
+          req.body = fields;
+          finish();
+        }, fail);
+      });
+      req.pipe(parser);
     };
   }
-  private createQueryValidationMiddleware(schema: any) {
+  // Shared plumbing for every request validator: run the schema through
+  // safeParseSchema and either store the output or respond with the
+  // formatted validation error.
+  private createValidationMiddleware(
+    source: ValidationSource,
+    schema: any,
+    errorHandling: ValidationErrorHandling,
+    read: (req: Request) => unknown,
+    write: (req: Request, value: any) => void
+  ) {
+    const reject = this.createValidationRejection(source, errorHandling);
+
     return async (req: Request, res: Response, next: NextFunction) => {
+      let input: unknown;
       try {
-        const result = safeParseSchema(schema, req.query) as any;
+        input = read(req);
+        const result = safeParseSchema(schema, input) as any;
         const resolved =
           result && typeof (result as Promise<any>).then === "function"
             ? await result
             : result;
         if (resolved && "issues" in resolved && resolved.issues) {
-          res.status(400).json({
-            error: "Validation failed",
-            details: resolved.errors || resolved.issues,
-          });
+          reject(req, res, next, input, resolved.issues);
           return;
         }
-        const validatedQuery =
-          resolved && "value" in resolved ? resolved.value : resolved;
-        // Use Object.defineProperty to properly set the read-only query property
-        Object.defineProperty(req, "query", {
-          value: validatedQuery,
-          writable: false,
-          enumerable: true,
-          configurable: true,
-        });
+        write(req, resolved && "value" in resolved ? resolved.value : resolved);
         next();
       } catch (error) {
         if (isSchemaError(error)) {
-          res.status(400).json({
-            error: "Validation failed",
-            details: (error as any).errors || (error as any).issues,
-          });
+          reject(req, res, next, input, error.issues);
         } else {
           next(error);
         }
@@ -1459,6 +6894,17 @@ export function createTypedRouter<
  *
  * @property validateInput - (Future) Whether to enable global input validation.
  * @property errorHandler - Optional global error handler middleware for the router.
+ * @property responseValidation - Optional validation of outgoing responses (off by default).
+ * @property validationErrorFormatter - Optional formatter for request validation failures (400 with `{ error, details }` by default).
+ * @property problemDetails - Render validation failures and HttpErrors as RFC 9457 `application/problem+json`.
+ * @property forwardValidationErrors - Pass a RequestValidationError to `next()` instead of responding to validation failures.
+ * @property validate - Default for the `validate` route option.
+ * @property coerceQuery - Convert query strings to booleans, numbers, arrays and nested objects before `querySchema` validation (off by default).
+ * @property fileStorage - Storage for files uploaded to routes with a `files` option (`memoryStorage()` by default).
+ * @property conflicts - Report routes that can never be reached because an earlier route has the same path or a pattern matching their literal path: `warn` logs them and `error` throws at registration (off by default).
+ * @property methodNotAllowed - Answer requests to a registered path with an unregistered method with 405 and an `Allow` header instead of falling through to a 404.
+ * @property autoOptions - Answer OPTIONS requests to a registered path without an `options` route with 204 and an `Allow` header.
+ * @property logger - Where the router reports problems that do not fail a request, such as response validation failures and route conflicts (`console` by default).
  */
 export interface RouterConfig {
   validateInput?: boolean;
@@ -1468,8 +6914,33 @@ export interface RouterConfig {
     res: Response,
     next: NextFunction
   ) => void;
+  responseValidation?: ResponseValidationMode | ResponseValidationOptions;
+  validationErrorFormatter?: ValidationErrorFormatter;
+  problemDetails?: boolean;
+  forwardValidationErrors?: boolean;
+  validate?: ValidationOrder;
+  coerceQuery?: boolean | QueryCoercionOptions;
+  fileStorage?: FileStorage;
+  conflicts?: RouteConflictMode;
+  methodNotAllowed?: boolean;
+  autoOptions?: boolean;
+  logger?: RouterLogger;
+}
+
+/**
+ * Receives the warnings and errors the router reports, see
+ * `RouterConfig.logger`. `console` and most logging libraries fit.
+ */
+export interface RouterLogger {
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
 }
 
+/**
+ * How the router reports unreachable routes, see `RouterConfig.conflicts`.
+ */
+export type RouteConflictMode = "off" | "warn" | "error";
+
 /**
  * Create a new typed router with optional configuration.
  *
@@ -1486,16 +6957,19 @@ export interface RouterConfig {
  *     res.status(500).json({ error: 'Something went wrong', details: err });
  *   }
  * });
+ *
+ * @example
+ * // Validation failures and thrown HttpErrors as application/problem+json
+ * const router = createTypedRouterWithConfig({ problemDetails: true });
+ * router.get('/users/:id', (req, res) => {
+ *   throw new HttpError(404, `User ${req.params.id} does not exist`);
+ * });
  */
 export function createTypedRouterWithConfig<
   RouterMiddlewareProps extends Record<string, any> = {},
   RouterLocals extends Record<string, any> = {}
 >(config?: RouterConfig): TypedRouter<RouterMiddlewareProps, RouterLocals> {
-  const router = new TypedRouter<RouterMiddlewareProps, RouterLocals>();
-  if (config?.errorHandler) {
-    router.getRouter().use(config.errorHandler);
-  }
-  return router;
+  return new TypedRouter<RouterMiddlewareProps, RouterLocals>(config);
 }
 
 // Option 3: Factory with pre-configured middleware
@@ -1522,3 +6996,254 @@ export function createTypedRouterWithMiddleware<T extends Record<string, any>>(
   }
   return router;
 }
+
+// Typed HTTP client
+
+// Routes accumulated in a TypedRouter's type
+export type InferRouterRoutes<Router> = Router extends TypedRouter<
+  any,
+  any,
+  infer Routes
+>
+  ? Routes
+  : never;
+
+// Path params accepted by the client: numbers are stringified when interpolated
+export type ClientParams<Path extends string> = {
+  [K in keyof ExtractRouteParams<Path>]: ExtractRouteParams<Path>[K] extends
+    | string[]
+    | undefined
+    ? (string | number)[]
+    : string | number;
+};
+
+// Query values the client can serialize when a route declares no query schema
+export type ClientQuery = Record<
+  string,
+  string | number | boolean | null | undefined | (string | number | boolean)[]
+>;
+
+// A property that is optional when every key of its value is optional
+type ClientOption<Key extends string, Value> = {} extends Value
+  ? { [K in Key]?: Value }
+  : { [K in Key]: Value };
+
+/**
+ * Options for a single client request, derived from the route's path and
+ * schemas. Inputs are typed with the schemas' input types, since the server
+ * validates them.
+ *
+ * @property params - Path params interpolated into the path.
+ * @property query - Query string values.
+ * @property body - JSON request body.
+ * @property headers - Request headers.
+ * @property init - Extra fetch options (e.g. `signal`, `credentials`).
+ */
+export type ClientRequestOptions<Route extends TypedRoute> = ClientOption<
+  "params",
+  ClientParams<Route["path"]>
+> &
+  (unknown extends Route["querySchema"]
+    ? { query?: ClientQuery }
+    : ClientOption<"query", InferInput<Route["querySchema"]>>) &
+  (unknown extends Route["bodySchema"]
+    ? { body?: unknown }
+    : Route["bodySchema"] extends AnyStandardSchema
+    ? { body: InferInput<Route["bodySchema"]> }
+    : Route["bodySchema"] extends { "application/json": infer JSONBodySchema }
+    ? { body: InferInput<JSONBodySchema> }
+    : Route["bodySchema"] extends BodySchemaMap
+    ? { body?: unknown }
+    : { body: InferInput<Route["bodySchema"]> }) &
+  (unknown extends Route["headersSchema"]
+    ? { headers?: Record<string, string> }
+    : ClientOption<"headers", InferInput<Route["headersSchema"]>>) & {
+    init?: Omit<RequestInit, "method" | "body" | "headers">;
+  };
+
+// Response of a client request: one variant per declared status code
+export type ClientResponse<Route extends TypedRoute> =
+  Route["responses"] extends ResponseSchemas
+    ? {
+        [Status in keyof Route["responses"] & number]: {
+          status: Status;
+          ok: boolean;
+          data: InferSchemaOutput<Route["responses"][Status]>;
+          response: globalThis.Response;
+        };
+      }[keyof Route["responses"] & number]
+    : {
+        status: number;
+        ok: boolean;
+        data: unknown;
+        response: globalThis.Response;
+      };
+
+// Routes reachable with a method; `all` routes answer every method
+type RoutesForMethod<
+  Routes extends TypedRoute,
+  Method extends HttpMethod
+> = Extract<Routes, { method: Method | "all" }>;
+
+// A client method: only accepts paths registered for the HTTP method
+type ClientMethod<Routes extends TypedRoute, Method extends HttpMethod> = <
+  Path extends RoutesForMethod<Routes, Method>["path"]
+>(
+  path: Path,
+  ...options: {} extends ClientRequestOptions<
+    Extract<RoutesForMethod<Routes, Method>, { path: Path }>
+  >
+    ? [
+        options?: ClientRequestOptions<
+          Extract<RoutesForMethod<Routes, Method>, { path: Path }>
+        >
+      ]
+    : [
+        options: ClientRequestOptions<
+          Extract<RoutesForMethod<Routes, Method>, { path: Path }>
+        >
+      ]
+) => Promise<
+  ClientResponse<Extract<RoutesForMethod<Routes, Method>, { path: Path }>>
+>;
+
+/**
+ * A typed HTTP client with one method per HTTP verb, created by createTypedClient.
+ */
+export type TypedClient<Routes extends TypedRoute> = {
+  [Method in Exclude<HttpMethod, "all">]: ClientMethod<Routes, Method>;
+};
+
+/**
+ * Options for createTypedClient.
+ *
+ * @property baseUrl - URL the router is mounted at, e.g. `https://api.example.com/api`.
+ * @property fetch - Optional fetch implementation (defaults to the global fetch).
+ * @property headers - Optional headers sent with every request.
+ */
+export interface TypedClientOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+}
+
+// Interpolate params into a path; optional groups are kept only when every
+// param inside them is provided
+function buildPath(path: string, params: Record<string, unknown>): string {
+  const render = (tokens: PathToken[]): string | undefined => {
+    let result = "";
+    for (const token of tokens) {
+      if (token.type === "literal") {
+        result += token.value;
+      } else if (token.type === "optional") {
+        result += render(token.tokens) ?? "";
+      } else {
+        const value = params[token.name];
+        if (value === undefined || (Array.isArray(value) && !value.length)) {
+          if (token.type === "repeating" && token.optional) continue;
+          return undefined;
+        }
+        // Repeating params and wildcards span segments, as arrays or as
+        // strings with slashes (e.g. Express 4's `req.params[0]`)
+        const segments = Array.isArray(value)
+          ? value
+          : token.type === "param" || token.type === "constraint"
+          ? [value]
+          : String(value).split("/");
+        result += segments
+          .map((item) => encodeURIComponent(String(item)))
+          .join("/");
+      }
+    }
+    return result;
+  };
+
+  const result = render(parsePath(path));
+  if (result === undefined) {
+    throw new TypeError(`Missing required params for path "${path}"`);
+  }
+  return result;
+}
+
+// Serialize query values; arrays become repeated keys
+function buildQueryString(query: Record<string, unknown> | undefined): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        search.append(key, String(item));
+      }
+    }
+  }
+  const result = search.toString();
+  return result ? `?${result}` : "";
+}
+
+/**
+ * Create an HTTP client whose methods are derived from a router's type.
+ *
+ * Paths, params, query, body and headers are checked against the routes
+ * registered on the router, and responses are typed from the routes'
+ * declared `responses`. Routes are accumulated in the router's type as they
+ * are chained, so build the router in a single chain (or reassign it) and
+ * pass `typeof router`.
+ *
+ * @param options - The base URL, fetch implementation and default headers.
+ * @returns A typed client.
+ *
+ * @example
+ * const router = createTypedRouter()
+ *   .get(
+ *     '/users/:userId',
+ *     { querySchema: UserQuerySchema, responses: { 200: UserSchema } },
+ *     handler
+ *   )
+ *   .post('/users', { bodySchema: CreateUserSchema }, createHandler);
+ *
+ * const client = createTypedClient<typeof router>({
+ *   baseUrl: 'https://api.example.com/api',
+ * });
+ * const { status, data } = await client.get('/users/:userId', {
+ *   params: { userId: '42' },
+ *   query: { include: ['posts'] },
+ * });
+ */
+export function createTypedClient<Router extends TypedRouter<any, any, any>>(
+  options: TypedClientOptions
+): TypedClient<InferRouterRoutes<Router>> {
+  const fetchImpl = options.fetch ?? fetch;
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  const request =
+    (method: string) =>
+    async (path: string, requestOptions: Record<string, any> = {}) => {
+      const { params, query, body, headers, init } = requestOptions;
+      const response = await fetchImpl(
+        baseUrl + buildPath(path, params ?? {}) + buildQueryString(query),
+        {
+          ...init,
+          method: method.toUpperCase(),
+          headers: {
+            ...(body !== undefined
+              ? { "content-type": "application/json" }
+              : {}),
+            ...options.headers,
+            ...headers,
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+        }
+      );
+      // HEAD and 204 responses have no body, so read text before parsing
+      const text = await response.text();
+      const contentType = response.headers.get("content-type") ?? "";
+      const data =
+        text && contentType.includes("json") ? JSON.parse(text) : text;
+      return { status: response.status, ok: response.ok, data, response };
+    };
+
+  return Object.fromEntries(
+    (["get", "post", "put", "delete", "patch", "options", "head"] as const).map(
+      (method) => [method, request(method)]
+    )
+  ) as any;
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createTypedRouter } from "../src/schema-router.ts";
+import { objectOf, postJSON, request } from "./helpers.ts";
+
+describe("body content types", () => {
+  const router = createTypedRouter().post(
+    "/users",
+    {
+      bodySchema: {
+        "application/json": objectOf("name"),
+        "application/x-www-form-urlencoded": objectOf("name", "email"),
+      },
+    },
+    (req, res) => {
+      res.json({ json: !!req.is("application/json"), body: req.body });
+    }
+  );
+
+  test("validate the body with the schema of its content type", async () => {
+    const json = await request(
+      router.getRouter(),
+      "/users",
+      postJSON({ name: "Ada", admin: true })
+    );
+    assert.deepEqual(json.body, { json: true, body: { name: "Ada" } });
+
+    const form = await request(router.getRouter(), "/users", {
+      method: "POST",
+      body: new URLSearchParams({ name: "Ada", email: "ada@example.com" }),
+    });
+    assert.deepEqual(form.body, {
+      json: false,
+      body: { name: "Ada", email: "ada@example.com" },
+    });
+
+    const invalid = await request(router.getRouter(), "/users", {
+      method: "POST",
+      body: new URLSearchParams({ name: "Ada" }),
+    });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.details[0].path, "email");
+  });
+
+  test("answer other content types with 415", async () => {
+    const response = await request(router.getRouter(), "/users", {
+      method: "POST",
+      headers: { "content-type": "text/plain" },
+      body: "Ada",
+    });
+    assert.equal(response.status, 415);
+    assert.deepEqual(response.body, {
+      error:
+        "Unsupported content type text/plain; expected application/json, application/x-www-form-urlencoded",
+    });
+  });
+});
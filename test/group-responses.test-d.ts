@@ -0,0 +1,55 @@
+// Type assertions, checked by `tsc -p test` (see the `test` script)
+import {
+  createTypedRouter,
+  type InferRouterRoutes,
+} from "../src/schema-router.ts";
+import { objectOf } from "./helpers.ts";
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+type Expect<T extends true> = T;
+
+const User = objectOf("id");
+const Unauthorized = objectOf("error");
+const NotFound = objectOf("message");
+
+const router = createTypedRouter().group(
+  { prefix: "/admin", responses: { 401: Unauthorized } },
+  (admin) => {
+    // A route's responses are merged with the group's
+    admin.get("/users/:id", { responses: { 200: User } }, (req, res) => {
+      res.status(401).json({ error: "Not signed in" });
+      res.status(200).json({ id: req.params.id });
+      // @ts-expect-error 404 is declared by neither
+      res.status(404).json({ message: "Not found" });
+    });
+
+    // Routes without responses of their own get the group's
+    admin.get("/me", (_req, res) => {
+      res.status(401).json({ error: "Not signed in" });
+      // @ts-expect-error the body must match the group's 401 schema
+      res.status(401).json({ id: "1" });
+    });
+
+    // Nested groups add theirs, and a route's schema replaces a group's
+    admin.group({ responses: { 404: NotFound } }, (nested) => {
+      nested.get("/teams", { responses: { 401: User } }, (_req, res) => {
+        res.status(404).json({ message: "Not found" });
+        res.status(401).json({ id: "1" });
+        // @ts-expect-error the route's 401 schema replaces the group's
+        res.status(401).json({ error: "Not signed in" });
+      });
+    });
+
+    return admin.post("/users", { responses: { 201: User } }, (_req, res) => {
+      res.status(201).json({ id: "1" });
+    });
+  }
+);
+
+// The router's routes carry the merged responses too (for createTypedClient)
+type Responses = InferRouterRoutes<typeof router>["responses"];
+export type MergedRouteResponses = Expect<Equal<keyof Responses, 201 | 401>>;
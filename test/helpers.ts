@@ -0,0 +1,79 @@
+import type { StandardSchemaV1 } from "@standard-schema/spec";
+import express, { type Router } from "express";
+import type { AddressInfo } from "node:net";
+
+// A Standard Schema from a validate function that returns the output, or
+// the issues of invalid input
+export function schema<Input, Output = Input>(
+  validate: (
+    value: unknown
+  ) => Output | { issues: readonly StandardSchemaV1.Issue[] }
+): StandardSchemaV1<Input, Output> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate(value) {
+        const result = validate(value);
+        if (result && typeof result === "object" && "issues" in result) {
+          return { issues: result.issues };
+        }
+        return { value: result as Output };
+      },
+    },
+  };
+}
+
+// An object whose listed keys hold strings, keeping only those keys
+export function objectOf<const Keys extends string[]>(...keys: Keys) {
+  return schema<Record<Keys[number], string>>((value) => {
+    const input = (value ?? {}) as Record<string, unknown>;
+    const missing = keys.filter((key) => typeof input[key] !== "string");
+    if (missing.length) {
+      return {
+        issues: missing.map((key) => ({
+          message: `${key} is required`,
+          path: [key],
+        })),
+      };
+    }
+    return Object.fromEntries(keys.map((key) => [key, input[key]])) as Record<
+      Keys[number],
+      string
+    >;
+  });
+}
+
+// Serves a router (behind express.json()) on a random port for one request
+export async function request(
+  router: Router,
+  path: string,
+  init?: RequestInit
+): Promise<{ status: number; headers: Headers; body: any }> {
+  const app = express();
+  app.use(express.json());
+  app.use(router);
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, init);
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {}
+    return { status: response.status, headers: response.headers, body };
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+export function postJSON(body: unknown): RequestInit {
+  return {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createTypedRouter } from "../src/schema-router.ts";
+import { request } from "./helpers.ts";
+
+describe("router hooks", () => {
+  test("run for the routes of mounted routers", async () => {
+    const calls: string[] = [];
+    const instance = createTypedRouter()
+      .addHook("onRequest", () => {
+        calls.push("instance");
+      })
+      .get("/y", (_req, res) => {
+        res.json({});
+      });
+    const parent = createTypedRouter()
+      .addHook("onRequest", (req) => {
+        calls.push(`parent ${req.originalUrl}`);
+      })
+      .use("/c", (child) =>
+        child.get(
+          "/x",
+          {
+            hooks: {
+              onRequest: () => {
+                calls.push("route");
+              },
+            },
+          },
+          (_req, res) => {
+            res.json({});
+          }
+        )
+      )
+      .use("/i", instance);
+
+    assert.equal((await request(parent.getRouter(), "/c/x")).status, 200);
+    assert.equal((await request(parent.getRouter(), "/i/y")).status, 200);
+    assert.deepEqual(calls, [
+      "parent /c/x",
+      "route",
+      "parent /i/y",
+      "instance",
+    ]);
+  });
+
+  test("of a router only run for requests that came through it", async () => {
+    const calls: string[] = [];
+    const shared = createTypedRouter().get("/x", (_req, res) => {
+      res.json({});
+    });
+    const first = createTypedRouter()
+      .addHook("onRequest", () => {
+        calls.push("first");
+      })
+      .use("/shared", shared);
+    const second = createTypedRouter()
+      .addHook("onRequest", () => {
+        calls.push("second");
+      })
+      .use("/shared", shared);
+
+    await request(first.getRouter(), "/shared/x");
+    await request(second.getRouter(), "/shared/x");
+    assert.deepEqual(calls, ["first", "second"]);
+  });
+
+  test("run once for routes registered after a mount", async () => {
+    const calls: string[] = [];
+    const parent = createTypedRouter()
+      .addHook("onRequest", () => {
+        calls.push("parent");
+      })
+      .use("/c", (child) =>
+        child.get("/x", (_req, res) => {
+          res.json({});
+        })
+      )
+      .get("/c/other", (_req, res) => {
+        res.json({});
+      });
+
+    assert.equal((await request(parent.getRouter(), "/c/other")).status, 200);
+    assert.deepEqual(calls, ["parent"]);
+  });
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createTypedRouterWithConfig } from "../src/schema-router.ts";
+import { request } from "./helpers.ts";
+
+describe("405 and OPTIONS", () => {
+  const router = createTypedRouterWithConfig({
+    methodNotAllowed: true,
+    autoOptions: true,
+  })
+    .get("/users/:id", (req, res) => {
+      res.json({ id: req.params.id });
+    })
+    .delete("/users/:id", (_req, res) => {
+      res.status(204).end();
+    });
+
+  test("answer unregistered methods of a registered path with 405", async () => {
+    const response = await request(router.getRouter(), "/users/1", {
+      method: "PUT",
+    });
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get("allow"), "GET, HEAD, DELETE, OPTIONS");
+    assert.deepEqual(response.body, {
+      error: "PUT is not allowed for /users/1",
+    });
+  });
+
+  test("answer OPTIONS with the allowed methods", async () => {
+    const response = await request(router.getRouter(), "/users/1", {
+      method: "OPTIONS",
+    });
+    assert.equal(response.status, 204);
+    assert.equal(response.headers.get("allow"), "GET, HEAD, DELETE, OPTIONS");
+  });
+
+  test("leave unregistered paths to the 404", async () => {
+    const response = await request(router.getRouter(), "/teams/1", {
+      method: "PUT",
+    });
+    assert.equal(response.status, 404);
+  });
+});
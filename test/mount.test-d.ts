@@ -0,0 +1,32 @@
+// Type assertions, checked by `tsc -p test` (see the `test` script)
+import {
+  createTypedRouter,
+  type MountParams,
+  type TypedMiddleware,
+} from "../src/schema-router.ts";
+
+type AuthProps = { user: string };
+const auth: TypedMiddleware<AuthProps> = (_req, _res, next) => next();
+const tenant: TypedMiddleware<{}, { tenant: string }> = (_req, _res, next) =>
+  next();
+
+const repos = createTypedRouter<AuthProps & MountParams<"/orgs/:orgId">>();
+
+// The parent provides the middleware props and the prefix the params
+createTypedRouter().useMiddleware(auth).use("/orgs/:orgId", repos);
+// @ts-expect-error no auth middleware on the parent
+createTypedRouter().use("/orgs/:orgId", repos);
+// @ts-expect-error the prefix has no orgId param
+createTypedRouter().useMiddleware(auth).use("/teams/:teamId", repos);
+
+// Params of the prefixes a parent is mounted at count too
+createTypedRouter<MountParams<"/orgs/:orgId">>().use(
+  "/repos/:repoId",
+  createTypedRouter<MountParams<"/orgs/:orgId/repos/:repoId">>()
+);
+
+// Response locals are checked like the props
+const billing = createTypedRouter<{}, { tenant: string }>();
+createTypedRouter().useMiddleware(tenant).use("/billing", billing);
+// @ts-expect-error no tenant middleware on the parent
+createTypedRouter().use("/billing", billing);
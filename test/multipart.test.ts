@@ -0,0 +1,208 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  createTypedRouter,
+  memoryStorage,
+  type FileStorage,
+  type UploadedFile,
+} from "../src/schema-router.ts";
+import { objectOf, request } from "./helpers.ts";
+
+// Memory storage that records the files it removes
+function recordingStorage() {
+  const removed: string[] = [];
+  const storage: FileStorage = {
+    handleFile: memoryStorage().handleFile,
+    removeFile(file: UploadedFile) {
+      removed.push(file.originalName);
+    },
+  };
+  return { storage, removed };
+}
+
+function form(
+  parts: Record<string, string | { content: string; type: string }[]>
+) {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(parts)) {
+    if (typeof value === "string") {
+      body.append(name, value);
+      continue;
+    }
+    value.forEach(({ content, type }, index) =>
+      body.append(name, new Blob([content], { type }), `${name}-${index}`)
+    );
+  }
+  return { method: "POST", body };
+}
+
+const png = (content = "png") => ({ content, type: "image/png" });
+
+// Uploads of requests rejected after parsing are removed when the response
+// closes, which can be after the client has the response
+async function eventually(check: () => void) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return check();
+    } catch (error) {
+      if (attempt === 20) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+}
+
+describe("multipart uploads", () => {
+  test("parse files into req.files and fields into req.body", async () => {
+    const router = createTypedRouter().post(
+      "/upload",
+      {
+        files: {
+          avatar: { required: true, mimeTypes: ["image/*"] },
+          photos: { maxCount: 2 },
+        },
+      },
+      (req, res) => {
+        res.json({
+          avatar: [req.files.avatar.originalName, req.files.avatar.size],
+          photos: req.files.photos.map((file) => file.buffer?.toString()),
+          body: req.body,
+        });
+      }
+    );
+
+    const response = await request(
+      router.getRouter(),
+      "/upload",
+      form({
+        title: "Holiday",
+        avatar: [png("avatar")],
+        photos: [png("one"), png("two")],
+      })
+    );
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, {
+      avatar: ["avatar-0", 6],
+      photos: ["one", "two"],
+      body: { title: "Holiday" },
+    });
+  });
+
+  test("reject files over maxSize and remove the stored ones", async () => {
+    const { storage, removed } = recordingStorage();
+    const router = createTypedRouter().post(
+      "/upload",
+      {
+        files: { avatar: {}, banner: { maxSize: 4 } },
+        fileStorage: storage,
+      },
+      (_req, res) => {
+        res.json({});
+      }
+    );
+
+    const response = await request(
+      router.getRouter(),
+      "/upload",
+      form({ avatar: [png()], banner: [png("too large")] })
+    );
+    assert.equal(response.status, 400);
+    assert.deepEqual(response.body.details, [
+      { message: "File exceeds 4 bytes", path: "banner" },
+    ]);
+    assert.deepEqual(removed, ["avatar-0"]);
+  });
+
+  test("reject unexpected types, counts and fields", async () => {
+    const router = createTypedRouter().post(
+      "/upload",
+      {
+        files: {
+          avatar: { mimeTypes: ["image/png"] },
+          document: { required: true },
+          photos: { maxCount: 2 },
+        },
+      },
+      (_req, res) => {
+        res.json({});
+      }
+    );
+    const messages = async (
+      parts: Record<string, { content: string; type: string }[]>
+    ) => {
+      const response = await request(
+        router.getRouter(),
+        "/upload",
+        form(parts)
+      );
+      assert.equal(response.status, 400);
+      return response.body.details.map((issue: any) => issue.message).sort();
+    };
+
+    assert.deepEqual(
+      await messages({
+        avatar: [{ content: "text", type: "text/plain" }],
+        photos: [png(), png(), png()],
+      }),
+      [
+        "Expected at most 2 file(s)",
+        "File is required",
+        "Unsupported file type text/plain",
+      ]
+    );
+    assert.deepEqual(await messages({ document: [png()], other: [png()] }), [
+      "Unexpected file field",
+    ]);
+    // More files than the fields allow in total stop the parsing
+    assert.deepEqual(
+      await messages({
+        document: [png()],
+        photos: [png(), png(), png(), png()],
+      }),
+      ["Expected at most 2 file(s)", "Too many files"]
+    );
+  });
+
+  test("remove the files of requests a later validator rejects", async () => {
+    const { storage, removed } = recordingStorage();
+    const router = createTypedRouter().post(
+      "/upload",
+      {
+        bodySchema: objectOf("title"),
+        files: { avatar: {} },
+        fileStorage: storage,
+      },
+      (_req, res) => {
+        res.json({});
+      }
+    );
+
+    const response = await request(
+      router.getRouter(),
+      "/upload",
+      form({ avatar: [png()] })
+    );
+    assert.equal(response.status, 400);
+    assert.equal(response.body.details[0].path, "title");
+    await eventually(() => assert.deepEqual(removed, ["avatar-0"]));
+  });
+
+  test("keep the files of accepted requests", async () => {
+    const { storage, removed } = recordingStorage();
+    const router = createTypedRouter().post(
+      "/upload",
+      { files: { avatar: {} }, fileStorage: storage },
+      (_req, res) => {
+        res.status(201).json({});
+      }
+    );
+
+    const response = await request(
+      router.getRouter(),
+      "/upload",
+      form({ avatar: [png()] })
+    );
+    assert.equal(response.status, 201);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.deepEqual(removed, []);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parsePath, type PathToken } from "../src/schema-router.ts";
+import { readmePatterns, type ParamDescription } from "./readme-patterns.ts";
+
+// Describe the params of parsed tokens the way readme-patterns.ts does
+function describeParams(
+  tokens: PathToken[],
+  optional = false
+): Record<string, ParamDescription> {
+  const params: Record<string, ParamDescription> = {};
+  for (const token of tokens) {
+    switch (token.type) {
+      case "literal":
+        break;
+      case "optional":
+        Object.assign(params, describeParams(token.tokens, true));
+        break;
+      case "repeating":
+        params[token.name] =
+          optional || token.optional ? "string[]?" : "string[]";
+        break;
+      default:
+        params[token.name] = optional ? "string?" : "string";
+    }
+  }
+  return params;
+}
+
+for (const [table, patterns] of Object.entries(readmePatterns)) {
+  describe(`parsePath: README ${table}`, () => {
+    for (const { path, params } of patterns) {
+      test(path, () => {
+        assert.deepEqual(describeParams(parsePath(path)), params);
+      });
+    }
+  });
+}
+
+describe("parsePath", () => {
+  test("matches the README example", () => {
+    assert.deepEqual(parsePath("/flights/:from-:to{/:airline}"), [
+      { type: "literal", value: "/flights/" },
+      { type: "param", name: "from" },
+      { type: "literal", value: "-" },
+      { type: "param", name: "to" },
+      {
+        type: "optional",
+        tokens: [
+          { type: "literal", value: "/" },
+          { type: "param", name: "airline" },
+        ],
+      },
+    ]);
+  });
+
+  test("keeps regex constraints", () => {
+    assert.deepEqual(parsePath("/users/:id(\\d+)"), [
+      { type: "literal", value: "/users/" },
+      { type: "constraint", name: "id", pattern: "\\d+" },
+    ]);
+  });
+});
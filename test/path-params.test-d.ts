@@ -0,0 +1,73 @@
+// Type assertions, checked by `tsc -p test` (see the `test` script)
+import {
+  parsePath,
+  type ExtractRouteParams,
+  type PathToken,
+} from "../src/schema-router.ts";
+import { readmePatterns, type ParamDescription } from "./readme-patterns.ts";
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+type Expect<T extends true> = T;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ParamType<Description> = Description extends `string[]${string}`
+  ? string[]
+  : string;
+
+// The params type a readme-patterns.ts description stands for
+type DescribedParams<Params extends Record<string, ParamDescription>> =
+  Simplify<
+    {
+      -readonly [K in keyof Params as Params[K] extends `${string}?`
+        ? never
+        : K]: ParamType<Params[K]>;
+    } & {
+      -readonly [K in keyof Params as Params[K] extends `${string}?`
+        ? K
+        : never]?: ParamType<Params[K]>;
+    }
+  >;
+
+type Pattern = (typeof readmePatterns)[keyof typeof readmePatterns][number];
+
+// Every README row whose documented params differ from ExtractRouteParams
+type Mismatches = Pattern extends infer Row
+  ? Row extends Pattern
+    ? Equal<
+        Simplify<ExtractRouteParams<Row["path"]>>,
+        DescribedParams<Row["params"]>
+      > extends true
+      ? never
+      : Row["path"]
+    : never
+  : never;
+
+export type ReadmePatternsMatch = Expect<Equal<Mismatches, never>>;
+
+// parsePath() names its tokens after the path's params
+const tokens = parsePath("/flights/:from-:to{/:airline}");
+export type ParsePathNames = Expect<
+  Equal<typeof tokens, PathToken<"from" | "to" | "airline">[]>
+>;
+
+// Spot checks that the assertions above can fail
+export type DetectsMismatch = Expect<
+  Equal<
+    Equal<
+      Simplify<ExtractRouteParams<"/posts/:year/:month?">>,
+      DescribedParams<{ year: "string"; month: "string" }>
+    >,
+    false
+  >
+>;
+export type OptionalSegment = Expect<
+  Equal<
+    Simplify<ExtractRouteParams<"/files{/:category}/:filename">>,
+    { filename: string; category?: string }
+  >
+>;
@@ -0,0 +1,52 @@
+// The route patterns of the README's "Express 4 & 5 Route Pattern Support"
+// tables, with the params the README documents for each. The runtime suite
+// checks parsePath() against them and the type tests check
+// ExtractRouteParams, so both stay in line with the docs.
+//
+// "string?" and "string[]?" mark optional params.
+export type ParamDescription = "string" | "string?" | "string[]" | "string[]?";
+
+export const readmePatterns = {
+  "Basic Patterns": [
+    { path: "/users/:userId", params: { userId: "string" } },
+    {
+      path: "/users/:userId/posts/:postId",
+      params: { userId: "string", postId: "string" },
+    },
+    { path: "/flights/:from-:to", params: { from: "string", to: "string" } },
+    { path: "/files/:name.:ext", params: { name: "string", ext: "string" } },
+  ],
+  "Advanced Patterns": [
+    {
+      path: "/posts/:year/:month?",
+      params: { year: "string", month: "string?" },
+    },
+    { path: "/users/:id(\\d+)", params: { id: "string" } },
+    { path: "/files/*", params: { "0": "string" } },
+    { path: "/api/*/files/*", params: { "0": "string", "1": "string" } },
+  ],
+  "Express 5 Enhanced Patterns": [
+    { path: "/files/:path+", params: { path: "string[]" } },
+    { path: "/search/:terms*", params: { terms: "string[]?" } },
+    { path: "/api{/:version}/users", params: { version: "string?" } },
+    {
+      path: "/files{/:category}/:filename",
+      params: { category: "string?", filename: "string" },
+    },
+  ],
+  "Real-World Examples": [
+    {
+      path: "/products/:category/:subcategory?",
+      params: { category: "string", subcategory: "string?" },
+    },
+    {
+      path: "/assets{/:version}/:filename.:ext",
+      params: { version: "string?", filename: "string", ext: "string" },
+    },
+    { path: "/api/v:version/*", params: { version: "string", "0": "string" } },
+    { path: "/docs/:sections+", params: { sections: "string[]" } },
+  ],
+} as const satisfies Record<
+  string,
+  readonly { path: string; params: Record<string, ParamDescription> }[]
+>;
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  HttpError,
+  createTypedRouterWithConfig,
+  type ResponseValidationReport,
+} from "../src/schema-router.ts";
+import { objectOf, postJSON, request } from "./helpers.ts";
+
+const User = objectOf("id", "name");
+
+// A router validating responses in the given mode, collecting the reports
+function createRouter(mode: "reject" | "strip") {
+  const reports: ResponseValidationReport[] = [];
+  const router = createTypedRouterWithConfig({
+    responseValidation: { mode, logger: (report) => reports.push(report) },
+  });
+  return { router, reports };
+}
+
+describe("response validation", () => {
+  test("reject replaces an invalid payload with a 500", async () => {
+    const { router, reports } = createRouter("reject");
+    router.get("/user", { responseSchema: User }, (_req, res) => {
+      res.json({ id: "1" } as any);
+    });
+
+    const response = await request(router.getRouter(), "/user");
+    assert.equal(response.status, 500);
+    assert.deepEqual(response.body, { error: "Response validation failed" });
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].statusCode, 200);
+  });
+
+  test("strip sends the schema output", async () => {
+    const { router } = createRouter("strip");
+    router.get("/user", { responseSchema: User }, (_req, res) => {
+      res.json({ id: "1", name: "Ada", password: "secret" } as any);
+    });
+
+    const response = await request(router.getRouter(), "/user");
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { id: "1", name: "Ada" });
+  });
+
+  test("responseSchema leaves request validation errors alone", async () => {
+    const { router, reports } = createRouter("reject");
+    router.post(
+      "/users",
+      { bodySchema: objectOf("name"), responseSchema: User },
+      (req, res) => {
+        res.json({ id: "1", name: req.body.name });
+      }
+    );
+
+    const response = await request(router.getRouter(), "/users", postJSON({}));
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Validation failed");
+    assert.deepEqual(reports, []);
+  });
+
+  test("responseSchema leaves HttpError responses alone", async () => {
+    const { router, reports } = createRouter("strip");
+    router.get("/users/:id", { responseSchema: User }, () => {
+      throw new HttpError(404, "User does not exist");
+    });
+
+    const response = await request(router.getRouter(), "/users/1");
+    assert.equal(response.status, 404);
+    assert.deepEqual(response.body, { error: "User does not exist" });
+    assert.deepEqual(reports, []);
+  });
+
+  test("error statuses use their responses schema", async () => {
+    const { router, reports } = createRouter("reject");
+    router.get(
+      "/users/:id",
+      { responseSchema: User, responses: { 404: objectOf("message") } },
+      () => {
+        throw new HttpError(404, "User does not exist");
+      }
+    );
+
+    const response = await request(router.getRouter(), "/users/1");
+    assert.equal(response.status, 500);
+    assert.equal(reports[0].statusCode, 404);
+  });
+});
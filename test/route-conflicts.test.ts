@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createTypedRouterWithConfig } from "../src/schema-router.ts";
+
+const handler = () => {};
+
+describe("route conflicts", () => {
+  test("throw for duplicate and shadowed routes in error mode", () => {
+    const router = createTypedRouterWithConfig({ conflicts: "error" })
+      .get("/users/:id", handler)
+      .get("/users/:userId/posts", handler);
+
+    assert.throws(
+      () => router.get("/users/:userId", handler),
+      /Route GET \/users\/:userId duplicates GET \/users\/:id/
+    );
+    assert.throws(
+      () => router.get("/users/me", handler),
+      /Route GET \/users\/me is shadowed by GET \/users\/:id/
+    );
+    // Other methods and paths the earlier routes do not match are fine
+    router.post("/users/:userId", handler).get("/users/me/posts/1", handler);
+  });
+
+  test("check routes of mounted routers and routes added after mounting", () => {
+    const parent = createTypedRouterWithConfig({ conflicts: "error" }).get(
+      "/api/users/:id",
+      handler
+    );
+    const child = createTypedRouterWithConfig({ conflicts: "error" });
+    parent.use("/api", child);
+
+    assert.throws(
+      () => child.get("/users/me", handler),
+      /Route GET \/api\/users\/me is shadowed by GET \/api\/users\/:id/
+    );
+  });
+
+  test("skip all() routes that pass requests on", () => {
+    const warnings: unknown[] = [];
+    const router = createTypedRouterWithConfig({
+      conflicts: "warn",
+      logger: { warn: (message) => warnings.push(message), error: handler },
+    })
+      .all("/users/:id", (_req, _res, next) => next?.())
+      .get("/users/:id", handler)
+      .all("/teams/:id", (_req, res) => {
+        res.end();
+      })
+      .get("/teams/:id", handler);
+
+    assert.equal(router.routes().length, 4);
+    assert.deepEqual(warnings, [
+      "Route GET /teams/:id is shadowed by ALL /teams/:id, which is registered before it",
+    ]);
+  });
+});
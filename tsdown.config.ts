@@ -7,7 +7,12 @@ export default defineConfig({
   sourcemap: false,
   clean: true,
   outDir: "dist",
-  external: ["express", "@standard-schema/spec", "@standard-schema/utils"],
+  external: [
+    "express",
+    "@standard-schema/spec",
+    "@standard-schema/utils",
+    "busboy",
+  ],
   target: "es2022",
   platform: "node",
   minify: true,